@@ -1,76 +1,31 @@
-import React, { useState, useEffect } from 'react';
-import { WebClient } from '../src'; // Using relative path for best example relevance within the repo
+import React, { useState } from 'react';
+import { ThreeDSProvider, CardFields, ChallengeDialog, useThreeDS } from '../src/react';
+import type { ChallengeRequest } from '../src/react';
 
-function PaymentForm() {
+function PaymentForm({ captureContext }: { captureContext: string }) {
   const [status, setStatus] = useState<string>('');
-  const [expiry] = useState({ month: '12', year: '2028' });
-  const [client] = useState(() => new WebClient());
-  const [flexInstance, setFlexInstance] = useState<any>(null);
-
-  useEffect(() => {
-    async function initFlex() {
-      try {
-        // Step 0: Polling for library
-        await client.waitForLibrary();
-
-        const captureContext = await fetchCaptureContext();
-        const flex = await client.setupFlexMicroform(
-          'card-container',
-          captureContext,
-          {
-            layout: 'inline',
-            customStyles: {
-              labelColor: '#4b5563',
-              labelFontSize: '14px',
-              labelFontWeight: '600',
-              borderColor: '#e5e7eb',
-              borderRadius: '10px'
-            }
-          }
-        );
-        setFlexInstance(flex);
-      } catch (error) {
-        console.error('Flex init failed:', error);
-      }
-    }
-
-    initFlex();
-    return () => client.destroy();
-  }, [client]);
+  const [challenge, setChallenge] = useState<ChallengeRequest | null>(null);
+  const { valid, ready, cardType, tokenize, client } = useThreeDS();
 
   const handlePayment = async () => {
-    if (!flexInstance) return;
-
     try {
       setStatus('Processing...');
 
-      // 1. Tokenize (pass expiry)
-      const { token } = await flexInstance.tokenize(expiry.month, expiry.year);
+      // 1. Tokenize (expiry is collected by the managed expiry field)
+      const { token } = await tokenize();
 
-      // 2. Start Enrollment (Backend Call)
+      // 2. Collect device info
+      const deviceInfo = await client.collectBrowserInfo();
+      console.log('Device Info:', deviceInfo);
+
+      // 3. Start Enrollment (Backend Call)
       // These values would typically come from your backend's enrollment response
-      const enrollmentData = {
+      console.log('Token:', token);
+      setChallenge({
         stepUpUrl: 'https://...',
         accessToken: '...',
         transactionId: 'TXN_' + Date.now()
-      };
-
-      // 3. Collect device info
-      const deviceInfo = await client.collectBrowserInfo();
-      console.log('Device Info:', deviceInfo);
-
-      // 4. 3DS Challenge
-      const auth = await client.showChallengeModal(enrollmentData.stepUpUrl, enrollmentData.accessToken, {
-        transactionId: enrollmentData.transactionId
       });
-
-      if (auth.success) {
-        setStatus('✅ Payment successful!');
-        await client.closeChallengeModal();
-      } else {
-        setStatus('❌ Authentication failed');
-      }
-
     } catch (error: any) {
       setStatus(`❌ Error: ${error.message}`);
     }
@@ -79,17 +34,48 @@ function PaymentForm() {
   return (
     <div>
       <h1>Payment Form</h1>
-      <div id="card-container"></div>
-      <button onClick={handlePayment}>Pay Now</button>
+      <CardFields
+        captureContext={captureContext}
+        options={{
+          layout: 'inline',
+          expiryField: 'single',
+          customStyles: {
+            labelColor: '#4b5563',
+            labelFontSize: '14px',
+            labelFontWeight: '600',
+            borderColor: '#e5e7eb',
+            borderRadius: '10px'
+          }
+        }}
+      />
+      {cardType && <p>Card: {cardType}</p>}
+      <button onClick={handlePayment} disabled={!ready || !valid}>Pay Now</button>
+
+      {/* 4. 3DS Challenge */}
+      <ChallengeDialog
+        challenge={challenge}
+        onComplete={(auth) => {
+          setChallenge(null);
+          setStatus(auth.success ? '✅ Payment successful!' : '❌ Authentication failed');
+        }}
+        onError={(error) => {
+          setChallenge(null);
+          setStatus(`❌ Error: ${error.message}`);
+        }}
+      />
       {status && <p>{status}</p>}
     </div>
   );
 }
 
-async function fetchCaptureContext() {
-  const res = await fetch('/api/flex/capture-context', { method: 'POST' });
-  const data = await res.json();
-  return data.captureContext;
+function App({ captureContext }: { captureContext: string }) {
+  return (
+    <React.StrictMode>
+      <ThreeDSProvider options={{ theme: 'auto' }}>
+        <PaymentForm captureContext={captureContext} />
+      </ThreeDSProvider>
+    </React.StrictMode>
+  );
 }
 
-export default PaymentForm;
+export default App;
@@ -2,33 +2,160 @@ import typescript from '@rollup/plugin-typescript';
 import { nodeResolve } from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 
-export default {
-  input: 'src/index.ts',
-  output: [
-    {
-      file: 'dist/index.js',
+// Node-only entries (server, simulator) build with Node types; the browser
+// entries never see them
+const plugins = (tsconfig = './tsconfig.json') => [
+  nodeResolve(),
+  commonjs(),
+  typescript({
+    tsconfig,
+    declaration: true,
+    declarationDir: './dist'
+  })
+];
+
+// Framework entry points import the core through the package name so they
+// share one copy of it at runtime
+const external = (id) =>
+  id === '@richy8/cybersource-3ds-web' ||
+  id === 'react' ||
+  id.startsWith('react/') ||
+  id === 'vue' ||
+  id.startsWith('node:');
+
+export default [
+  {
+    input: 'src/index.ts',
+    output: [
+      {
+        file: 'dist/index.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/index.esm.js',
+        format: 'esm',
+        sourcemap: true
+      },
+      {
+        file: 'dist/index.umd.js',
+        format: 'umd',
+        name: 'CyberSource3DS',
+        sourcemap: true
+      }
+    ],
+    plugins: plugins()
+  },
+  {
+    input: 'src/react/index.ts',
+    external,
+    output: [
+      {
+        file: 'dist/react.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/react.esm.js',
+        format: 'esm',
+        sourcemap: true
+      }
+    ],
+    plugins: plugins()
+  },
+  {
+    input: 'src/vue/index.ts',
+    external,
+    output: [
+      {
+        file: 'dist/vue.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/vue.esm.js',
+        format: 'esm',
+        sourcemap: true
+      }
+    ],
+    plugins: plugins()
+  },
+  {
+    input: 'src/elements/index.ts',
+    external,
+    output: [
+      {
+        file: 'dist/elements.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/elements.esm.js',
+        format: 'esm',
+        sourcemap: true
+      }
+    ],
+    plugins: plugins()
+  },
+  {
+    input: 'src/testing/index.ts',
+    external,
+    output: [
+      {
+        file: 'dist/testing.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/testing.esm.js',
+        format: 'esm',
+        sourcemap: true
+      }
+    ],
+    plugins: plugins()
+  },
+  {
+    input: 'src/simulator/index.ts',
+    external,
+    output: [
+      {
+        file: 'dist/simulator.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/simulator.esm.js',
+        format: 'esm',
+        sourcemap: true
+      }
+    ],
+    plugins: plugins('./tsconfig.server.json')
+  },
+  {
+    input: 'src/simulator/cli.ts',
+    external,
+    output: {
+      file: 'dist/simulator-cli.js',
       format: 'cjs',
-      sourcemap: true
-    },
-    {
-      file: 'dist/index.esm.js',
-      format: 'esm',
-      sourcemap: true
+      banner: '#!/usr/bin/env node'
     },
-    {
-      file: 'dist/index.umd.js',
-      format: 'umd',
-      name: 'CyberSource3DS',
-      sourcemap: true
-    }
-  ],
-  plugins: [
-    nodeResolve(),
-    commonjs(),
-    typescript({
-      tsconfig: './tsconfig.json',
-      declaration: true,
-      declarationDir: './dist'
-    })
-  ]
-};
+    plugins: plugins('./tsconfig.server.json')
+  },
+  {
+    input: 'src/server/index.ts',
+    external,
+    output: [
+      {
+        file: 'dist/server.js',
+        format: 'cjs',
+        sourcemap: true
+      },
+      {
+        file: 'dist/server.esm.js',
+        format: 'esm',
+        sourcemap: true
+      }
+    ],
+    plugins: plugins('./tsconfig.server.json')
+  }
+];
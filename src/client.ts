@@ -1,31 +1,94 @@
 import { DeviceDataCollector } from './ui/device-data-collector'
 import { collectBrowserInfo } from './ui/browser-info-collector'
 import { ChallengeModal } from './ui/challenge-modal'
+import { selectChallengeWindowSize } from './ui/challenge-window-size'
 import { FlexMicroform } from './ui/flex-microform'
+import { getFlexLibrarySource, loadFlexLibrary } from './ui/flex-loader'
+import { AuthenticationFlow } from './flow/authentication-flow'
+import { FlexInitError } from './errors'
+import { assertBrowser, generateId } from './utils'
+import { EventEmitter } from './utils/event-emitter'
+import { Logger } from './utils/logger'
 import type {
   DeviceDataOptions,
+  DeviceDataResult,
   ChallengeModalOptions,
   AuthenticationResult,
   ModalStyles,
   FlexMicroformOptions,
   FlexMicroformInstance,
-  DeviceInformation
+  DeviceInformation,
+  BrowserInfoOptions,
+  IpResolver,
+  AuthenticateOptions,
+  AuthenticationOutcome,
+  AuthenticationState,
+  AuthenticationStateListener,
+  ChallengeWindowSize,
+  ThemeInput,
+  LocaleOptions,
+  WebClientOptions,
+  ThreeDSEventMap,
+  ThreeDSEventType,
+  ThreeDSEventListener
 } from './types'
 
 export class WebClient {
   private deviceDataCollector: DeviceDataCollector
   private challengeModal: ChallengeModal
-  private flexMicroform: FlexMicroform | null = null
+  private flexMicroforms: Map<string, FlexMicroform> = new Map()
+  private flexKeys: WeakMap<HTMLElement, string> = new WeakMap()
+  private authenticationFlow: AuthenticationFlow
+  private theme: ThemeInput | undefined
+  private localeOptions: LocaleOptions = {}
+  private ipResolver: IpResolver | undefined
+  private events: EventEmitter<ThreeDSEventMap>
+  private logger: Logger
 
-  constructor() {
-    this.deviceDataCollector = new DeviceDataCollector()
-    this.challengeModal = new ChallengeModal()
+  constructor(options?: WebClientOptions) {
+    const securityOptions = {
+      environment: options?.environment,
+      trustedOrigins: options?.trustedOrigins,
+      onRejectedMessage: options?.onRejectedMessage
+    }
+    this.logger = Logger.create(options?.logger, options?.environment)
+    this.events = new EventEmitter(this.logger)
+    this.deviceDataCollector = new DeviceDataCollector(securityOptions, this.events, this.logger)
+    this.challengeModal = new ChallengeModal(securityOptions, this.events, this.logger)
+    this.authenticationFlow = new AuthenticationFlow(this.deviceDataCollector, this.challengeModal, this.logger)
+    this.ipResolver = options?.ipResolver
+
+    if (options?.theme) {
+      this.setTheme(options.theme)
+    }
+
+    if (options?.locale || options?.messages) {
+      this.setLocale({ locale: options.locale, messages: options.messages })
+    }
+  }
+
+  /**
+   * Set the locale and message overrides for the challenge modal and any
+   * microform set up afterwards
+   */
+  setLocale(options: LocaleOptions): void {
+    this.localeOptions = options
+    this.challengeModal.setLocale(options)
+  }
+
+  /**
+   * Set the theme for the challenge modal and any microform set up afterwards
+   */
+  setTheme(theme: ThemeInput): void {
+    this.theme = theme
+    this.challengeModal.setTheme(theme)
   }
 
   /**
    * Helper to wait for the Flex Microform library to load
    */
   async waitForLibrary(maxRetries: number = 50, interval: number = 100): Promise<void> {
+    assertBrowser('WebClient.waitForLibrary')
     let retries = 0
     while (!((window as any).FLEX || (window as any).Flex) && retries < maxRetries) {
       await new Promise(r => setTimeout(r, interval))
@@ -33,8 +96,26 @@ export class WebClient {
     }
 
     if (!((window as any).FLEX || (window as any).Flex)) {
-      throw new Error('Flex SDK failed to load. Please check your browser console for network errors.')
+      throw new FlexInitError('Flex SDK failed to load. Please check your browser console for network errors.', {
+        code: 'FLEX_SDK_NOT_LOADED',
+        retryable: true
+      })
+    }
+  }
+
+  /**
+   * Load the Flex Microform script named in a capture context, with its
+   * integrity hash. setupFlexMicroform does this automatically; call it
+   * directly to preload the library.
+   */
+  async loadFlexLibrary(captureContext: string, timeout?: number): Promise<void> {
+    const source = getFlexLibrarySource(captureContext)
+    if (!source) {
+      throw new FlexInitError('Capture context does not name a Flex client library', {
+        code: 'INVALID_CAPTURE_CONTEXT'
+      })
     }
+    return loadFlexLibrary(source, { timeout })
   }
 
   /**
@@ -55,24 +136,66 @@ export class WebClient {
    * 
    * // Later tokenize
    * const { token } = await flex.tokenize()
+   *
+   * @param container - Element id, or the element itself
+   * @param key - Identifies the instance when several microforms share a page
+   *   (defaults to the container id, or the key last used for that element).
+   *   Setting up an existing key or the same element again replaces it.
    */
   async setupFlexMicroform(
-    containerId: string,
+    container: string | HTMLElement,
     captureContext: string,
-    options?: FlexMicroformOptions
+    options?: FlexMicroformOptions,
+    key: string = typeof container === 'string' ? container : container.id || this.flexKeys.get(container) || generateId()
   ): Promise<FlexMicroformInstance> {
-    this.flexMicroform = new FlexMicroform(containerId, captureContext, options)
-    return this.flexMicroform.initialize()
+    this.destroyFlexMicroform(key)
+    if (typeof container !== 'string') {
+      const previousKey = this.flexKeys.get(container)
+      if (previousKey && previousKey !== key) {
+        this.destroyFlexMicroform(previousKey)
+      }
+      this.flexKeys.set(container, key)
+    }
+
+    const flexMicroform = new FlexMicroform(
+      container,
+      captureContext,
+      { theme: this.theme, ...this.localeOptions, ...options },
+      this.events,
+      key,
+      this.logger
+    )
+    this.flexMicroforms.set(key, flexMicroform)
+    return flexMicroform.initialize()
   }
 
   /**
-   * Collect device fingerprint data using hidden iframe
+   * Get a microform instance by key
+   */
+  getFlexMicroform(key: string): FlexMicroform | undefined {
+    return this.flexMicroforms.get(key)
+  }
+
+  /**
+   * Destroy a single microform instance by key
+   */
+  destroyFlexMicroform(key: string): void {
+    const flexMicroform = this.flexMicroforms.get(key)
+    if (flexMicroform) {
+      flexMicroform.destroy()
+      this.flexMicroforms.delete(key)
+    }
+  }
+
+  /**
+   * Collect device fingerprint data using hidden iframe.
+   * Resolves on timeout too, with `success: false` and `timedOut: true`.
    */
   async collectDeviceData(
     deviceDataCollectionUrl: string,
     accessToken: string,
     options?: DeviceDataOptions
-  ): Promise<{ success: boolean; timeout?: boolean }> {
+  ): Promise<DeviceDataResult> {
     return this.deviceDataCollector.collect(
       deviceDataCollectionUrl,
       accessToken,
@@ -81,10 +204,22 @@ export class WebClient {
   }
 
   /**
-   * Collect browser information for device fingerprinting
+   * Collect EMV 3DS browser information for device fingerprinting.
+   * The IP address comes from `options.ipResolver`, then the client's
+   * `ipResolver`; pass the Accept header your server received so it can be
+   * included.
+   *
+   * @example
+   * const deviceInformation = await client.collectBrowserInfo({
+   *   ipResolver: { ipAddress: serverSeenIp },
+   *   acceptHeader: serverSeenAcceptHeader
+   * })
    */
-  async collectBrowserInfo(ipAddress: string | null = null): Promise<DeviceInformation> {
-    return collectBrowserInfo(ipAddress)
+  async collectBrowserInfo(options: BrowserInfoOptions | string | null = {}): Promise<DeviceInformation> {
+    if (typeof options === 'string' || options === null) {
+      return collectBrowserInfo(options, this.logger)
+    }
+    return collectBrowserInfo({ ipResolver: this.ipResolver, ...options }, this.logger)
   }
 
 
@@ -100,7 +235,85 @@ export class WebClient {
   }
 
   /**
-   * Close challenge modal manually
+   * Run the complete 3DS flow: device data collection, enrollment,
+   * challenge (when required) and validation
+   *
+   * @example
+   * const outcome = await client.authenticate({
+   *   setup: () => api.payerAuthSetup(token),
+   *   enroll: ({ referenceId }) => api.checkEnrollment(referenceId),
+   *   validate: ({ transactionId }) => api.validate(transactionId)
+   * })
+   *
+   * if (outcome.success) {
+   *   await api.completePayment(outcome.transactionId)
+   * }
+   */
+  async authenticate(options: AuthenticateOptions): Promise<AuthenticationOutcome> {
+    return this.authenticationFlow.run(options)
+  }
+
+  /**
+   * Current state of the authentication flow
+   */
+  getAuthenticationState(): AuthenticationState {
+    return this.authenticationFlow.getState()
+  }
+
+  /**
+   * Subscribe to authentication state transitions.
+   * Returns a function that removes the listener.
+   */
+  onAuthenticationStateChange(listener: AuthenticationStateListener): () => void {
+    return this.authenticationFlow.subscribe(listener)
+  }
+
+  /**
+   * Listen to a lifecycle event: device data collection, the challenge,
+   * microform setup and tokenization. Returns a function that removes the
+   * listener.
+   *
+   * @example
+   * client.on('challenge:shown', ({ mode }) => analytics.track('3ds_challenge', { mode }))
+   * client.on('tokenize:failed', ({ key, error }) => showError(key, error))
+   */
+  on<K extends ThreeDSEventType>(type: K, listener: ThreeDSEventListener<K>): () => void {
+    return this.events.on(type, listener)
+  }
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off<K extends ThreeDSEventType>(type: K, listener: ThreeDSEventListener<K>): void {
+    this.events.off(type, listener)
+  }
+
+  /**
+   * Render the challenge inside your own container instead of a modal.
+   * Completion handling, timeout and cleanup match showChallengeModal.
+   *
+   * @param container - Element or element id to mount the challenge into
+   */
+  async showChallengeInline(
+    container: HTMLElement | string,
+    stepUpUrl: string,
+    accessToken: string,
+    options?: ChallengeModalOptions
+  ): Promise<AuthenticationResult> {
+    return this.challengeModal.showInline(container, stepUpUrl, accessToken, options)
+  }
+
+  /**
+   * Pick the EMV 3DS challengeWindowSize that fits the current viewport.
+   * Send the result to your backend and pass the same value as
+   * `windowSize` to showChallengeModal so both always agree.
+   */
+  getChallengeWindowSize(): ChallengeWindowSize {
+    return selectChallengeWindowSize()
+  }
+
+  /**
+   * Close challenge modal (or inline challenge) manually
    */
   closeChallengeModal(): void {
     this.challengeModal.close()
@@ -114,13 +327,13 @@ export class WebClient {
   }
 
   /**
-   * Clean up resources
+   * Clean up resources. Listeners added with `on` are kept, so the client
+   * stays usable afterwards (e.g. across React StrictMode remounts).
    */
   destroy(): void {
     this.deviceDataCollector.destroy()
     this.challengeModal.destroy()
-    if (this.flexMicroform) {
-      this.flexMicroform.destroy()
-    }
+    this.flexMicroforms.forEach((flexMicroform) => flexMicroform.destroy())
+    this.flexMicroforms.clear()
   }
 }
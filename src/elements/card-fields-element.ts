@@ -0,0 +1,201 @@
+import { FlexInitError, FlexMicroform } from '@richy8/cybersource-3ds-web'
+import type { FlexMicroformInstance, FlexMicroformOptions, FlexTokenizeResult, ThemeInput } from '@richy8/cybersource-3ds-web'
+import { BaseElement, createMountPoint, emit } from './shared'
+
+export interface CardFieldsChangeDetail {
+  fieldType: string
+  data: any
+}
+
+export interface CardFieldsValidityDetail {
+  valid: boolean
+  fields: Record<string, { valid: boolean; empty: boolean }>
+}
+
+const ATTRIBUTES = [
+  'capture-context',
+  'layout',
+  'theme',
+  'locale',
+  'expiry-field',
+  'card-number-label',
+  'security-code-label',
+  'expiry-date-label'
+]
+
+/**
+ * `<cybs-card-fields>` — Flex Microform card fields as a custom element.
+ *
+ * Configure with attributes (`capture-context`, `layout`, `theme`, `locale`,
+ * `expiry-field`, `*-label`) or the `captureContext` and `options` properties.
+ * Fires `ready`, `change`, `validity`, `tokenized` and `error` events.
+ *
+ * @example
+ * <cybs-card-fields capture-context="eyJ..." expiry-field="single" theme="auto"></cybs-card-fields>
+ * const { token } = await document.querySelector('cybs-card-fields').tokenize()
+ */
+export class CardFieldsElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return ATTRIBUTES
+  }
+
+  private microform: FlexMicroform | null = null
+  private instance: FlexMicroformInstance | null = null
+  private mountPoint: HTMLElement | null = null
+  private extraOptions: FlexMicroformOptions = {}
+  private fieldStates: CardFieldsValidityDetail['fields'] = {}
+  private isValid = false
+  private renderQueued = false
+
+  /**
+   * Capture context JWT; mirrors the `capture-context` attribute
+   */
+  get captureContext(): string | null {
+    return this.getAttribute('capture-context')
+  }
+
+  set captureContext(value: string | null) {
+    if (value) {
+      this.setAttribute('capture-context', value)
+    } else {
+      this.removeAttribute('capture-context')
+    }
+  }
+
+  /**
+   * Options that cannot be expressed as attributes, such as customStyles.
+   * Attributes take precedence.
+   */
+  get options(): FlexMicroformOptions {
+    return this.extraOptions
+  }
+
+  set options(value: FlexMicroformOptions) {
+    this.extraOptions = value || {}
+    this.scheduleRender()
+  }
+
+  /**
+   * Whether every field currently holds a valid value
+   */
+  get valid(): boolean {
+    return this.isValid
+  }
+
+  connectedCallback(): void {
+    this.scheduleRender()
+  }
+
+  disconnectedCallback(): void {
+    this.teardown()
+  }
+
+  attributeChangedCallback(_name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue !== newValue) {
+      this.scheduleRender()
+    }
+  }
+
+  /**
+   * Tokenize the card. Fires `tokenized` on success.
+   */
+  async tokenize(expiryMonth?: string, expiryYear?: string): Promise<FlexTokenizeResult> {
+    if (!this.instance) {
+      throw new FlexInitError('Card fields are not ready', { code: 'FLEX_NOT_INITIALIZED' })
+    }
+
+    const result = await this.instance.tokenize(expiryMonth, expiryYear)
+    emit(this, 'tokenized', result)
+    return result
+  }
+
+  /**
+   * Batch attribute and property changes made in the same task into one mount
+   */
+  private scheduleRender(): void {
+    if (this.renderQueued) return
+    this.renderQueued = true
+    queueMicrotask(() => {
+      this.renderQueued = false
+      this.render()
+    })
+  }
+
+  private render(): void {
+    this.teardown()
+
+    const captureContext = this.captureContext
+    if (!this.isConnected || !captureContext) return
+
+    this.mountPoint = createMountPoint(this)
+    const microform = new FlexMicroform(this.mountPoint, captureContext, this.resolveOptions())
+    this.microform = microform
+
+    microform
+      .initialize()
+      .then((instance) => {
+        if (this.microform !== microform) return
+        this.instance = instance
+        emit(this, 'ready', undefined)
+      })
+      .catch((error: Error) => {
+        if (this.microform !== microform) return
+        emit(this, 'error', { error })
+      })
+  }
+
+  private resolveOptions(): FlexMicroformOptions {
+    const options = this.extraOptions
+    const required = ['cardNumber', 'securityCode']
+    const expiryField = (this.getAttribute('expiry-field') || options.expiryField) as FlexMicroformOptions['expiryField']
+    if (expiryField && expiryField !== 'none') {
+      required.push('expiryDate')
+    }
+
+    return {
+      ...options,
+      layout: (this.getAttribute('layout') as FlexMicroformOptions['layout']) || options.layout,
+      theme: (this.getAttribute('theme') as ThemeInput) || options.theme,
+      locale: this.getAttribute('locale') || options.locale,
+      expiryField,
+      labels: {
+        ...options.labels,
+        ...definedOnly({
+          cardNumber: this.getAttribute('card-number-label'),
+          securityCode: this.getAttribute('security-code-label'),
+          expiryDate: this.getAttribute('expiry-date-label')
+        })
+      },
+      onFieldChange: (fieldType, data) => {
+        options.onFieldChange?.(fieldType, data)
+        this.fieldStates = { ...this.fieldStates, [fieldType]: { valid: !!data?.valid, empty: !!data?.empty } }
+        emit<CardFieldsChangeDetail>(this, 'change', { fieldType, data })
+
+        const valid = required.every((field) => this.fieldStates[field]?.valid)
+        if (valid !== this.isValid) {
+          this.isValid = valid
+          emit<CardFieldsValidityDetail>(this, 'validity', { valid, fields: this.fieldStates })
+        }
+      }
+    }
+  }
+
+  private teardown(): void {
+    this.microform?.destroy()
+    this.microform = null
+    this.instance = null
+    this.mountPoint?.remove()
+    this.mountPoint = null
+    this.fieldStates = {}
+    this.isValid = false
+  }
+}
+
+function definedOnly<T extends Record<string, string | null>>(values: T): Partial<Record<keyof T, string>> {
+  const result: Partial<Record<keyof T, string>> = {}
+  for (const key of Object.keys(values) as (keyof T)[]) {
+    const value = values[key]
+    if (value !== null) result[key] = value
+  }
+  return result
+}
@@ -0,0 +1,180 @@
+import { ChallengeModal } from '@richy8/cybersource-3ds-web'
+import type {
+  AuthenticationResult,
+  ChallengeModalOptions,
+  ChallengeWindowSize,
+  MessageSecurityOptions,
+  ThemeInput,
+  ThreeDSEnvironment
+} from '@richy8/cybersource-3ds-web'
+import { BaseElement, createMountPoint, emit } from './shared'
+
+export interface ChallengeErrorDetail {
+  error: Error
+}
+
+const ATTRIBUTES = [
+  'step-up-url',
+  'transaction-id',
+  'mode',
+  'theme',
+  'locale',
+  'window-size',
+  'environment'
+]
+
+/**
+ * `<cybs-3ds-challenge>` — the 3DS step-up challenge as a custom element.
+ *
+ * The challenge starts once the element is connected and has both a step-up
+ * URL and an access token; set `accessToken` as a property so the JWT never
+ * appears in markup. `mode="inline"` renders inside the element, otherwise a
+ * modal opens. Fires `challenge-complete` with the AuthenticationResult, or
+ * `challenge-error` (including cancellation). Removing the element closes
+ * the challenge.
+ *
+ * @example
+ * const el = document.createElement('cybs-3ds-challenge')
+ * el.addEventListener('challenge-complete', (e) => finalize(e.detail))
+ * el.stepUpUrl = enrollment.stepUpUrl
+ * el.accessToken = enrollment.accessToken
+ * document.body.appendChild(el)
+ */
+export class ChallengeElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return ATTRIBUTES
+  }
+
+  private modal: ChallengeModal | null = null
+  private mountPoint: HTMLElement | null = null
+  private token: string | null = null
+  private extraOptions: ChallengeModalOptions = {}
+  private security: Pick<MessageSecurityOptions, 'trustedOrigins' | 'onRejectedMessage'> = {}
+  private renderQueued = false
+
+  get stepUpUrl(): string | null {
+    return this.getAttribute('step-up-url')
+  }
+
+  set stepUpUrl(value: string | null) {
+    if (value) {
+      this.setAttribute('step-up-url', value)
+    } else {
+      this.removeAttribute('step-up-url')
+    }
+  }
+
+  get accessToken(): string | null {
+    return this.token
+  }
+
+  set accessToken(value: string | null) {
+    this.token = value
+    this.scheduleRender()
+  }
+
+  /**
+   * Challenge options that cannot be expressed as attributes, such as
+   * customStyles. Attributes take precedence.
+   */
+  get options(): ChallengeModalOptions {
+    return this.extraOptions
+  }
+
+  set options(value: ChallengeModalOptions) {
+    this.extraOptions = value || {}
+  }
+
+  /**
+   * Extra origins and diagnostics for the completion message guard
+   */
+  get securityOptions(): Pick<MessageSecurityOptions, 'trustedOrigins' | 'onRejectedMessage'> {
+    return this.security
+  }
+
+  set securityOptions(value: Pick<MessageSecurityOptions, 'trustedOrigins' | 'onRejectedMessage'>) {
+    this.security = value || {}
+  }
+
+  connectedCallback(): void {
+    this.scheduleRender()
+  }
+
+  disconnectedCallback(): void {
+    this.teardown()
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    // Restart only when the challenge itself changes; styling applies next time
+    if (oldValue !== newValue && (name === 'step-up-url' || name === 'transaction-id')) {
+      this.scheduleRender()
+    }
+  }
+
+  /**
+   * Close the challenge; fires `challenge-error` with a cancellation error
+   */
+  close(): void {
+    this.modal?.close()
+  }
+
+  private scheduleRender(): void {
+    if (this.renderQueued) return
+    this.renderQueued = true
+    queueMicrotask(() => {
+      this.renderQueued = false
+      this.render()
+    })
+  }
+
+  private render(): void {
+    this.teardown()
+
+    const stepUpUrl = this.stepUpUrl
+    const accessToken = this.token
+    if (!this.isConnected || !stepUpUrl || !accessToken) return
+
+    const modal = new ChallengeModal({
+      ...this.security,
+      environment: (this.getAttribute('environment') as ThreeDSEnvironment) || undefined
+    })
+    this.modal = modal
+
+    const theme = this.getAttribute('theme') as ThemeInput | null
+    if (theme) modal.setTheme(theme)
+    const locale = this.getAttribute('locale')
+    if (locale) modal.setLocale({ locale })
+
+    const options: ChallengeModalOptions = {
+      ...this.extraOptions,
+      transactionId: this.getAttribute('transaction-id') || this.extraOptions.transactionId,
+      windowSize: (this.getAttribute('window-size') as ChallengeWindowSize) || this.extraOptions.windowSize
+    }
+
+    let challenge: Promise<AuthenticationResult>
+    if (this.getAttribute('mode') === 'inline') {
+      this.mountPoint = createMountPoint(this)
+      challenge = modal.showInline(this.mountPoint, stepUpUrl, accessToken, options)
+    } else {
+      challenge = modal.show(stepUpUrl, accessToken, options)
+    }
+
+    challenge
+      .then((result) => {
+        if (this.modal !== modal) return
+        emit(this, 'challenge-complete', result)
+      })
+      .catch((error: Error) => {
+        if (this.modal !== modal) return
+        emit<ChallengeErrorDetail>(this, 'challenge-error', { error })
+      })
+  }
+
+  private teardown(): void {
+    const modal = this.modal
+    this.modal = null
+    modal?.destroy()
+    this.mountPoint?.remove()
+    this.mountPoint = null
+  }
+}
@@ -0,0 +1,32 @@
+import { CardFieldsElement } from './card-fields-element'
+import { ChallengeElement } from './challenge-element'
+
+export { CardFieldsElement, ChallengeElement }
+export type { CardFieldsChangeDetail, CardFieldsValidityDetail } from './card-fields-element'
+export type { ChallengeErrorDetail } from './challenge-element'
+
+/**
+ * Register `<cybs-card-fields>` and `<cybs-3ds-challenge>`.
+ * Safe to call more than once, and does nothing on the server so it can
+ * run from universal plugin code.
+ */
+export function defineCustomElements(registry?: CustomElementRegistry): void {
+  if (!registry) {
+    if (typeof customElements === 'undefined') return
+    registry = customElements
+  }
+
+  if (!registry.get('cybs-card-fields')) {
+    registry.define('cybs-card-fields', CardFieldsElement)
+  }
+  if (!registry.get('cybs-3ds-challenge')) {
+    registry.define('cybs-3ds-challenge', ChallengeElement)
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'cybs-card-fields': CardFieldsElement
+    'cybs-3ds-challenge': ChallengeElement
+  }
+}
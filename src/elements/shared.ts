@@ -0,0 +1,36 @@
+/**
+ * HTMLElement is undefined during server-side rendering. Extending a plain
+ * class there keeps the module importable; the elements are only ever
+ * registered in the browser.
+ */
+export const BaseElement: typeof HTMLElement =
+  typeof HTMLElement !== 'undefined' ? HTMLElement : (class {} as typeof HTMLElement)
+
+/**
+ * Dispatch a CustomEvent that bubbles out of the element's shadow root
+ */
+export function emit<T>(element: HTMLElement, type: string, detail: T): void {
+  element.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true }))
+}
+
+/**
+ * Create the element the SDK renders into: inside an open shadow root when
+ * the browser supports one, otherwise directly in the element
+ */
+export function createMountPoint(element: HTMLElement): HTMLElement {
+  let root: ShadowRoot | HTMLElement = element
+  if (typeof element.attachShadow === 'function') {
+    if (!element.shadowRoot) {
+      const shadow = element.attachShadow({ mode: 'open' })
+      const style = document.createElement('style')
+      style.textContent = ':host { display: block; } :host([hidden]) { display: none; }'
+      shadow.appendChild(style)
+    }
+    root = element.shadowRoot!
+  }
+
+  const mountPoint = document.createElement('div')
+  mountPoint.setAttribute('part', 'container')
+  root.appendChild(mountPoint)
+  return mountPoint
+}
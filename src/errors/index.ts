@@ -0,0 +1,189 @@
+import type { PayerAuthRequestIssue } from '../types'
+
+/**
+ * Stable, machine-readable error codes raised by the SDK
+ */
+export type ThreeDSErrorCode =
+  | 'FLEX_SDK_NOT_LOADED'
+  | 'FLEX_SCRIPT_LOAD_FAILED'
+  | 'FLEX_SCRIPT_TIMEOUT'
+  | 'FLEX_SCRIPT_UNTRUSTED'
+  | 'FLEX_CONTAINER_NOT_FOUND'
+  | 'FLEX_SETUP_FAILED'
+  | 'FLEX_UNSUPPORTED_VERSION'
+  | 'FLEX_NOT_INITIALIZED'
+  | 'INVALID_CAPTURE_CONTEXT'
+  | 'CAPTURE_CONTEXT_EXPIRED'
+  | 'TOKENIZATION_FAILED'
+  | 'EXPIRY_REQUIRED'
+  | 'INVALID_EXPIRY'
+  | 'CHALLENGE_TIMEOUT'
+  | 'CHALLENGE_CANCELLED'
+  | 'CHALLENGE_CONTAINER_NOT_FOUND'
+  | 'CHALLENGE_RETURN_FAILED'
+  | 'DEVICE_DATA_FAILED'
+  | 'AUTHENTICATION_IN_PROGRESS'
+  | 'INVALID_SETUP_RESPONSE'
+  | 'INVALID_ENROLLMENT_RESPONSE'
+  | 'BROWSER_REQUIRED'
+  | 'INVALID_PAYER_AUTH_REQUEST'
+  | 'API_REQUEST_FAILED'
+
+export interface ThreeDSErrorOptions {
+  code: ThreeDSErrorCode
+  retryable?: boolean
+  cause?: unknown
+}
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class ThreeDSError extends Error {
+  readonly code: ThreeDSErrorCode
+  readonly retryable: boolean
+  readonly cause?: unknown
+
+  constructor(message: string, options: ThreeDSErrorOptions) {
+    super(message)
+    this.name = 'ThreeDSError'
+    this.code = options.code
+    this.retryable = options.retryable ?? false
+    this.cause = options.cause
+  }
+}
+
+/**
+ * Flex Microform could not be loaded or initialized
+ */
+export class FlexInitError extends ThreeDSError {
+  constructor(message: string, options: ThreeDSErrorOptions) {
+    super(message, options)
+    this.name = 'FlexInitError'
+  }
+}
+
+/**
+ * Card data could not be tokenized
+ */
+export class TokenizationError extends ThreeDSError {
+  constructor(message: string, options: Partial<ThreeDSErrorOptions> = {}) {
+    super(message, { code: 'TOKENIZATION_FAILED', retryable: true, ...options })
+    this.name = 'TokenizationError'
+  }
+}
+
+/**
+ * The challenge was not completed within the allotted time
+ */
+export class ChallengeTimeoutError extends ThreeDSError {
+  constructor(message: string = 'Challenge timeout') {
+    super(message, { code: 'CHALLENGE_TIMEOUT', retryable: true })
+    this.name = 'ChallengeTimeoutError'
+  }
+}
+
+/**
+ * How a challenge was cancelled: closed from code, or by the user via the
+ * Cancel button or the Escape key
+ */
+export type ChallengeCancelReason = 'closed' | 'cancelButton' | 'escapeKey'
+
+/**
+ * The challenge was closed before the issuer reported a result
+ */
+export class ChallengeCancelledError extends ThreeDSError {
+  readonly reason: ChallengeCancelReason
+
+  constructor(message: string = 'Challenge modal closed manually', reason: ChallengeCancelReason = 'closed') {
+    super(message, { code: 'CHALLENGE_CANCELLED', retryable: true })
+    this.name = 'ChallengeCancelledError'
+    this.reason = reason
+  }
+
+  /**
+   * True when the customer dismissed the challenge themselves
+   */
+  get cancelledByUser(): boolean {
+    return this.reason !== 'closed'
+  }
+}
+
+/**
+ * Device data collection could not be started
+ */
+export class DeviceDataError extends ThreeDSError {
+  constructor(message: string, options: Partial<ThreeDSErrorOptions> = {}) {
+    super(message, { code: 'DEVICE_DATA_FAILED', retryable: true, ...options })
+    this.name = 'DeviceDataError'
+  }
+}
+
+/**
+ * A Payer Authentication request is missing required fields or has
+ * malformed ones. `issues` lists every problem found.
+ */
+export class PayerAuthRequestError extends ThreeDSError {
+  readonly issues: PayerAuthRequestIssue[]
+
+  constructor(issues: PayerAuthRequestIssue[]) {
+    super(`Invalid Payer Authentication request: ${issues.map((issue) => issue.message).join('; ')}`, {
+      code: 'INVALID_PAYER_AUTH_REQUEST'
+    })
+    this.name = 'PayerAuthRequestError'
+    this.issues = issues
+  }
+}
+
+/**
+ * A CyberSource REST call returned an error status or could not be sent.
+ * 5xx, 429 and network failures are retryable.
+ */
+export class CyberSourceApiError extends ThreeDSError {
+  /**
+   * HTTP status, or 0 when the request never got a response
+   */
+  readonly status: number
+  readonly body: unknown
+  /**
+   * v-c-correlation-id response header, for CyberSource support
+   */
+  readonly correlationId?: string
+
+  constructor(
+    message: string,
+    details: { status: number; body?: unknown; correlationId?: string; cause?: unknown }
+  ) {
+    super(message, {
+      code: 'API_REQUEST_FAILED',
+      retryable: details.status === 0 || details.status === 429 || details.status >= 500,
+      cause: details.cause
+    })
+    this.name = 'CyberSourceApiError'
+    this.status = details.status
+    this.body = details.body
+    this.correlationId = details.correlationId
+  }
+}
+
+/**
+ * A browser-only method was called where there is no window or document,
+ * e.g. during server-side rendering
+ */
+export class BrowserRequiredError extends ThreeDSError {
+  readonly method: string
+
+  constructor(method: string) {
+    super(`${method} needs a browser (window and document) and cannot run during server-side rendering`, {
+      code: 'BROWSER_REQUIRED'
+    })
+    this.name = 'BrowserRequiredError'
+    this.method = method
+  }
+}
+
+/**
+ * Type guard for SDK errors
+ */
+export function isThreeDSError(error: unknown): error is ThreeDSError {
+  return error instanceof ThreeDSError
+}
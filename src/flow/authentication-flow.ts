@@ -0,0 +1,169 @@
+import type { DeviceDataCollector } from '../ui/device-data-collector'
+import type { ChallengeModal } from '../ui/challenge-modal'
+import { ThreeDSError } from '../errors'
+import { Logger } from '../utils/logger'
+import type {
+  AuthenticateOptions,
+  AuthenticationOutcome,
+  AuthenticationResult,
+  AuthenticationState,
+  AuthenticationStateListener,
+  EnrollmentResponse
+} from '../types'
+
+/**
+ * Drives the 3DS sequence: device data → enrollment → frictionless or
+ * challenge → validation. Backend calls are supplied as callbacks, the
+ * browser steps reuse the client's collector and modal.
+ */
+export class AuthenticationFlow {
+  private state: AuthenticationState = 'idle'
+  private listeners: Set<AuthenticationStateListener> = new Set()
+  private running = false
+  private logger: Logger
+
+  constructor(
+    private deviceDataCollector: DeviceDataCollector,
+    private challengeModal: ChallengeModal,
+    logger?: Logger
+  ) {
+    this.logger = (logger || new Logger()).forSource('AuthenticationFlow')
+  }
+
+  /**
+   * Current state of the flow
+   */
+  getState(): AuthenticationState {
+    return this.state
+  }
+
+  /**
+   * Subscribe to state transitions. Returns an unsubscribe function.
+   */
+  subscribe(listener: AuthenticationStateListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Run the full authentication sequence. Always resolves; a run started
+   * while another is active fails with AUTHENTICATION_IN_PROGRESS and leaves
+   * the active run's state alone.
+   */
+  async run(options: AuthenticateOptions): Promise<AuthenticationOutcome> {
+    if (this.running) {
+      return {
+        state: 'failed',
+        success: false,
+        frictionless: false,
+        error: new ThreeDSError('Authentication already in progress', { code: 'AUTHENTICATION_IN_PROGRESS' })
+      }
+    }
+
+    this.running = true
+    const unsubscribe = options.onStateChange ? this.subscribe(options.onStateChange) : null
+    let enrollment: EnrollmentResponse | undefined
+    let challenge: AuthenticationResult | undefined
+
+    try {
+      this.transition('collectingDeviceData')
+      const setup = await options.setup()
+      const deviceData = await this.deviceDataCollector.collect(
+        setup.deviceDataCollectionUrl,
+        setup.accessToken,
+        options.deviceDataOptions
+      )
+
+      const referenceId = setup.referenceId || deviceData.sessionId
+
+      this.transition('enrolling')
+      enrollment = await options.enroll({ referenceId, deviceData })
+
+      if (!enrollment.challengeRequired) {
+        // Never assume success: a frictionless result must say so explicitly
+        if (typeof enrollment.authenticated !== 'boolean') {
+          throw new ThreeDSError('Frictionless enrollment response did not report whether the card was authenticated', {
+            code: 'INVALID_ENROLLMENT_RESPONSE'
+          })
+        }
+
+        this.transition('completed')
+        return {
+          state: 'completed',
+          success: enrollment.authenticated,
+          frictionless: true,
+          transactionId: enrollment.transactionId,
+          enrollment
+        }
+      }
+
+      if (!enrollment.stepUpUrl || !enrollment.accessToken) {
+        throw new ThreeDSError('Enrollment requires a challenge but no stepUpUrl or accessToken was returned', {
+          code: 'INVALID_ENROLLMENT_RESPONSE'
+        })
+      }
+
+      this.transition('challenge')
+      challenge = await this.challengeModal.show(enrollment.stepUpUrl, enrollment.accessToken, {
+        transactionId: enrollment.transactionId,
+        ...options.challengeOptions
+      })
+
+      this.transition('validating')
+      const transactionId = challenge.authTransactionId || enrollment.transactionId
+      const validation = await options.validate({
+        referenceId,
+        transactionId,
+        challenge
+      })
+
+      // A return page that couldn't read the CRes reports success: false with
+      // statusUnavailable; validation alone decides then
+      const challengePassed = challenge.success || challenge.result?.statusUnavailable === true
+
+      this.transition('completed')
+      return {
+        state: 'completed',
+        success: challengePassed && validation.success,
+        frictionless: false,
+        transactionId,
+        enrollment,
+        challenge,
+        validation
+      }
+    } catch (err: any) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      this.transition('failed', error)
+      return {
+        state: 'failed',
+        success: false,
+        frictionless: false,
+        transactionId: challenge?.authTransactionId || enrollment?.transactionId,
+        enrollment,
+        challenge,
+        error
+      }
+    } finally {
+      this.running = false
+      unsubscribe?.()
+    }
+  }
+
+  /**
+   * Move to a new state and notify subscribers
+   */
+  private transition(to: AuthenticationState, error?: Error): void {
+    const from = this.state
+    this.state = to
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener({ from, to, error })
+      } catch (err) {
+        this.logger.error('Authentication state listener failed', { error: err })
+      }
+    })
+  }
+}
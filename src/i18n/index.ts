@@ -0,0 +1,32 @@
+import type { LocaleMessages, LocaleOptions } from '../types'
+import { en } from './locales/en'
+import { fr } from './locales/fr'
+import { ar } from './locales/ar'
+import { pt } from './locales/pt'
+
+export const LOCALES: Record<string, LocaleMessages> = { en, fr, ar, pt }
+
+// Languages written right to left
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur']
+
+export interface ResolvedLocale {
+  locale: string
+  dir: 'ltr' | 'rtl'
+  messages: LocaleMessages
+}
+
+/**
+ * Resolve a locale to its message pack, falling back from region to
+ * language and then to English, and apply per-key overrides
+ */
+export function resolveLocale(options: LocaleOptions = {}): ResolvedLocale {
+  const requested = (options.locale || 'en').toLowerCase()
+  const language = requested.split('-')[0]
+  const pack = LOCALES[requested] || LOCALES[language] || en
+
+  return {
+    locale: requested,
+    dir: RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr',
+    messages: { ...pack, ...options.messages }
+  }
+}
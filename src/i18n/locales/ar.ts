@@ -0,0 +1,30 @@
+import type { LocaleMessages } from '../../types'
+
+export const ar: LocaleMessages = {
+  challengeTitle: 'مصادقة البطاقة',
+  challengeDescription: 'يرجى إكمال التحقق مع البنك الذي تتعامل معه',
+  challengeFooter: 'محمي بواسطة 3D Secure 2.0',
+  challengeCancel: 'إلغاء',
+  challengeFrameTitle: 'مصادقة البطاقة',
+  cardNumberLabel: 'رقم البطاقة',
+  securityCodeLabel: 'رمز الأمان',
+  securityCodeShortLabel: 'CVV',
+  expiryDateLabel: 'تاريخ الانتهاء',
+  expiryMonthLabel: 'الشهر',
+  expiryYearLabel: 'السنة',
+  expiryDatePlaceholder: 'MM/YY',
+  expiryMonthPlaceholder: 'MM',
+  expiryYearPlaceholder: 'YYYY',
+  fieldInvalid: 'غير صالح',
+  cardNumberInvalid: 'أدخل رقم بطاقة صالحًا',
+  securityCodeInvalid: 'أدخل رمز أمان صالحًا',
+  expiryRequired: 'تاريخ الانتهاء مطلوب',
+  expiryInvalid: 'أدخل تاريخ انتهاء صالحًا',
+  expiryExpired: 'انتهت صلاحية البطاقة',
+  tokenizeFailed: 'تعذر التحقق من بيانات البطاقة. يرجى المحاولة مرة أخرى',
+  tokenizeTimeout: 'استغرق التحقق وقتًا طويلاً. يرجى المحاولة مرة أخرى',
+  tokenizeNetworkError: 'مشكلة في الاتصال. تحقق من اتصالك وحاول مرة أخرى',
+  cardDetailsInvalid: 'تحقق من بيانات بطاقتك وحاول مرة أخرى',
+  fieldsNotLoaded: 'لا تزال حقول البطاقة قيد التحميل',
+  captureContextExpired: 'انتهت صلاحية هذا النموذج. يرجى إعادة التحميل وإدخال بيانات البطاقة مجددًا'
+}
@@ -0,0 +1,30 @@
+import type { LocaleMessages } from '../../types'
+
+export const en: LocaleMessages = {
+  challengeTitle: 'Card Authentication',
+  challengeDescription: 'Please complete verification with your bank',
+  challengeFooter: 'Secured by 3D Secure 2.0',
+  challengeCancel: 'Cancel',
+  challengeFrameTitle: 'Card authentication',
+  cardNumberLabel: 'Card Number',
+  securityCodeLabel: 'Security Code',
+  securityCodeShortLabel: 'CVV',
+  expiryDateLabel: 'Expiry Date',
+  expiryMonthLabel: 'Month',
+  expiryYearLabel: 'Year',
+  expiryDatePlaceholder: 'MM/YY',
+  expiryMonthPlaceholder: 'MM',
+  expiryYearPlaceholder: 'YYYY',
+  fieldInvalid: 'Invalid',
+  cardNumberInvalid: 'Enter a valid card number',
+  securityCodeInvalid: 'Enter a valid security code',
+  expiryRequired: 'Expiry date is required',
+  expiryInvalid: 'Enter a valid expiry date',
+  expiryExpired: 'Card has expired',
+  tokenizeFailed: 'Card details could not be verified. Please try again',
+  tokenizeTimeout: 'Verification took too long. Please try again',
+  tokenizeNetworkError: 'Connection problem. Check your connection and try again',
+  cardDetailsInvalid: 'Check your card details and try again',
+  fieldsNotLoaded: 'The card fields are still loading',
+  captureContextExpired: 'This form has expired. Please reload and re-enter your card details'
+}
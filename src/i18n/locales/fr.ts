@@ -0,0 +1,30 @@
+import type { LocaleMessages } from '../../types'
+
+export const fr: LocaleMessages = {
+  challengeTitle: 'Authentification de la carte',
+  challengeDescription: 'Veuillez finaliser la vérification auprès de votre banque',
+  challengeFooter: 'Sécurisé par 3D Secure 2.0',
+  challengeCancel: 'Annuler',
+  challengeFrameTitle: 'Authentification de la carte',
+  cardNumberLabel: 'Numéro de carte',
+  securityCodeLabel: 'Code de sécurité',
+  securityCodeShortLabel: 'CVV',
+  expiryDateLabel: "Date d'expiration",
+  expiryMonthLabel: 'Mois',
+  expiryYearLabel: 'Année',
+  expiryDatePlaceholder: 'MM/AA',
+  expiryMonthPlaceholder: 'MM',
+  expiryYearPlaceholder: 'AAAA',
+  fieldInvalid: 'Invalide',
+  cardNumberInvalid: 'Saisissez un numéro de carte valide',
+  securityCodeInvalid: 'Saisissez un code de sécurité valide',
+  expiryRequired: "La date d'expiration est obligatoire",
+  expiryInvalid: "Saisissez une date d'expiration valide",
+  expiryExpired: 'La carte a expiré',
+  tokenizeFailed: 'Impossible de vérifier les données de la carte. Veuillez réessayer',
+  tokenizeTimeout: 'La vérification a pris trop de temps. Veuillez réessayer',
+  tokenizeNetworkError: 'Problème de connexion. Vérifiez votre connexion et réessayez',
+  cardDetailsInvalid: 'Vérifiez les données de votre carte et réessayez',
+  fieldsNotLoaded: 'Les champs de la carte sont en cours de chargement',
+  captureContextExpired: 'Ce formulaire a expiré. Rechargez-le et saisissez à nouveau votre carte'
+}
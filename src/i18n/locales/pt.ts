@@ -0,0 +1,30 @@
+import type { LocaleMessages } from '../../types'
+
+export const pt: LocaleMessages = {
+  challengeTitle: 'Autenticação do cartão',
+  challengeDescription: 'Conclua a verificação com o seu banco',
+  challengeFooter: 'Protegido por 3D Secure 2.0',
+  challengeCancel: 'Cancelar',
+  challengeFrameTitle: 'Autenticação do cartão',
+  cardNumberLabel: 'Número do cartão',
+  securityCodeLabel: 'Código de segurança',
+  securityCodeShortLabel: 'CVV',
+  expiryDateLabel: 'Data de validade',
+  expiryMonthLabel: 'Mês',
+  expiryYearLabel: 'Ano',
+  expiryDatePlaceholder: 'MM/AA',
+  expiryMonthPlaceholder: 'MM',
+  expiryYearPlaceholder: 'AAAA',
+  fieldInvalid: 'Inválido',
+  cardNumberInvalid: 'Insira um número de cartão válido',
+  securityCodeInvalid: 'Insira um código de segurança válido',
+  expiryRequired: 'A data de validade é obrigatória',
+  expiryInvalid: 'Insira uma data de validade válida',
+  expiryExpired: 'O cartão expirou',
+  tokenizeFailed: 'Não foi possível verificar os dados do cartão. Tente novamente',
+  tokenizeTimeout: 'A verificação demorou demasiado. Tente novamente',
+  tokenizeNetworkError: 'Problema de ligação. Verifique a sua ligação e tente novamente',
+  cardDetailsInvalid: 'Verifique os dados do cartão e tente novamente',
+  fieldsNotLoaded: 'Os campos do cartão ainda estão a carregar',
+  captureContextExpired: 'Este formulário expirou. Recarregue e volte a introduzir os dados do cartão'
+}
@@ -1,7 +1,30 @@
 export { WebClient } from './client'
 export { DeviceDataCollector } from './ui/device-data-collector'
 export { ChallengeModal } from './ui/challenge-modal'
+export { selectChallengeWindowSize, CHALLENGE_WINDOW_DIMENSIONS } from './ui/challenge-window-size'
 export { FlexMicroform } from './ui/flex-microform'
+export { LIGHT_THEME, DARK_THEME, resolveTheme } from './ui/theme'
+export { LOCALES, resolveLocale } from './i18n'
 export { collectBrowserInfo } from './ui/browser-info-collector'
+export { handleChallengeReturn, buildChallengeCompletionMessage } from './ui/challenge-return'
+export { AuthenticationFlow } from './flow/authentication-flow'
+export {
+  buildSetupRequest,
+  buildEnrollmentRequest,
+  buildValidationRequest,
+  toCardTypeCode
+} from './payer-auth/request-builders'
+export { parseCaptureContext, isCaptureContextExpired } from './utils/capture-context'
+export {
+  validateDeviceInformation,
+  normalizeColorDepth,
+  normalizeTimeZoneOffset,
+  EMV_COLOR_DEPTHS
+} from './utils/device-information'
+export { isBrowser } from './utils'
+export { EventEmitter } from './utils/event-emitter'
+export { Logger, redact } from './utils/logger'
+export { CARDINAL_ORIGINS } from './security/message-guard'
 
 export * from './types'
+export * from './errors'
@@ -0,0 +1,257 @@
+import type {
+  CardNetworkCode,
+  FlexTokenizeResult,
+  PayerAuthCommonInput,
+  PayerAuthEnrollmentInput,
+  PayerAuthEnrollmentRequest,
+  PayerAuthOrder,
+  PayerAuthOrderInformation,
+  PayerAuthPaymentInformation,
+  PayerAuthRequestIssue,
+  PayerAuthSetupInput,
+  PayerAuthSetupRequest,
+  PayerAuthValidationInput,
+  PayerAuthValidationRequest
+} from '../types'
+import { PayerAuthRequestError } from '../errors'
+import { validateDeviceInformation } from '../utils/device-information'
+
+// Flex reports card types by name; Payer Authentication expects the network code
+const CARD_TYPE_CODES: Record<string, CardNetworkCode> = {
+  visa: '001',
+  mastercard: '002',
+  amex: '003',
+  discover: '004',
+  dinersclub: '005',
+  diners: '005',
+  carteblanche: '006',
+  jcb: '007',
+  cartesbancaires: '036',
+  cb: '036',
+  maestro: '042',
+  elo: '054',
+  carnet: '058',
+  cup: '062',
+  chinaunionpay: '062'
+}
+
+const CARD_CODES = new Set<string>(Object.values(CARD_TYPE_CODES))
+
+/**
+ * Map a Flex card type (name or code) to the Payer Authentication card type code
+ */
+export function toCardTypeCode(cardType: string | undefined): CardNetworkCode | undefined {
+  if (!cardType) return undefined
+  if (CARD_CODES.has(cardType)) return cardType as CardNetworkCode
+  return CARD_TYPE_CODES[cardType.toLowerCase().replace(/[^a-z]/g, '')]
+}
+
+/**
+ * Collects issues so every problem is reported at once
+ */
+class IssueList {
+  readonly issues: PayerAuthRequestIssue[] = []
+
+  add(field: string, problem: string): void {
+    this.push({ field, message: `${field} ${problem}` })
+  }
+
+  push(issue: PayerAuthRequestIssue): void {
+    this.issues.push(issue)
+  }
+
+  throwIfAny(): void {
+    if (this.issues.length > 0) {
+      throw new PayerAuthRequestError(this.issues)
+    }
+  }
+}
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+
+function checkToken(input: PayerAuthCommonInput, issues: IssueList): string {
+  const token = typeof input.token === 'string' ? input.token : input.token?.token
+  if (isBlank(token)) {
+    issues.add('token', 'is required')
+  } else if (token!.split('.').length !== 3) {
+    issues.add('token', 'must be a Flex transient token (JWT)')
+  }
+
+  if (input.token && typeof input.token === 'object') {
+    const { expiryMonth, expiryYear } = input.token as FlexTokenizeResult
+    if (!/^(0[1-9]|1[0-2])$/.test(expiryMonth || '')) issues.add('token.expiryMonth', 'must be 01-12')
+    if (!/^\d{4}$/.test(expiryYear || '')) issues.add('token.expiryYear', 'must be a 4-digit year')
+  }
+
+  return token || ''
+}
+
+function checkOrder(order: PayerAuthOrder | undefined, issues: IssueList): void {
+  if (!order) {
+    issues.add('order', 'is required')
+    return
+  }
+
+  const amount = typeof order.amount === 'number' ? String(order.amount) : order.amount
+  if (isBlank(amount)) {
+    issues.add('order.amount', 'is required')
+  } else if (!/^\d+(\.\d+)?$/.test(amount) || Number(amount) <= 0) {
+    issues.add('order.amount', 'must be a positive decimal amount')
+  }
+
+  if (isBlank(order.currency)) {
+    issues.add('order.currency', 'is required')
+  } else if (!/^[A-Za-z]{3}$/.test(order.currency)) {
+    issues.add('order.currency', 'must be an ISO 4217 code')
+  }
+
+  const billTo = order.billTo
+  if (billTo) {
+    if (billTo.country !== undefined && !/^[A-Za-z]{2}$/.test(billTo.country)) {
+      issues.add('order.billTo.country', 'must be an ISO 3166-1 alpha-2 code')
+    }
+    if (billTo.email !== undefined && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(billTo.email)) {
+      issues.add('order.billTo.email', 'must be an email address')
+    }
+  }
+}
+
+function checkReturnUrl(returnUrl: string | undefined, issues: IssueList): void {
+  if (isBlank(returnUrl)) {
+    issues.add('returnUrl', 'is required')
+    return
+  }
+
+  try {
+    const url = new URL(returnUrl!)
+    const local = url.hostname === 'localhost' || url.hostname === '127.0.0.1'
+    if (url.protocol !== 'https:' && !(local && url.protocol === 'http:')) {
+      issues.add('returnUrl', 'must use https')
+    }
+  } catch {
+    issues.add('returnUrl', 'must be an absolute URL')
+  }
+}
+
+function clientReference(code: string | undefined) {
+  return code ? { clientReferenceInformation: { code } } : {}
+}
+
+function paymentInformation(token: PayerAuthCommonInput['token']): { paymentInformation?: PayerAuthPaymentInformation } {
+  if (typeof token === 'string') return {}
+
+  const type = toCardTypeCode(token.cardType)
+  return {
+    paymentInformation: {
+      card: {
+        expirationMonth: token.expiryMonth,
+        expirationYear: token.expiryYear,
+        ...(type ? { type } : {})
+      }
+    }
+  }
+}
+
+function orderInformation(order: PayerAuthOrder): PayerAuthOrderInformation {
+  return {
+    amountDetails: {
+      totalAmount: typeof order.amount === 'number' ? String(order.amount) : order.amount,
+      currency: order.currency.toUpperCase()
+    },
+    ...(order.billTo ? { billTo: { ...order.billTo, country: order.billTo.country?.toUpperCase() } } : {})
+  }
+}
+
+/**
+ * Build the Payer Authentication Setup request body
+ * (POST /risk/v1/authentication-setups)
+ *
+ * @throws PayerAuthRequestError when required fields are missing or malformed
+ */
+export function buildSetupRequest(input: PayerAuthSetupInput): PayerAuthSetupRequest {
+  const issues = new IssueList()
+  const transientToken = checkToken(input, issues)
+  issues.throwIfAny()
+
+  return {
+    ...clientReference(input.clientReferenceCode),
+    tokenInformation: { transientToken },
+    ...paymentInformation(input.token)
+  }
+}
+
+/**
+ * Build the Check Enrollment request body (POST /risk/v1/authentications)
+ *
+ * @example
+ * const body = buildEnrollmentRequest({
+ *   token: await card.tokenize(),
+ *   order: { amount: '49.99', currency: 'USD', billTo },
+ *   deviceInformation: await client.collectBrowserInfo({ acceptHeader }),
+ *   referenceId: deviceData.sessionId,
+ *   returnUrl: 'https://shop.example/3ds/return'
+ * })
+ *
+ * @throws PayerAuthRequestError when required fields are missing or malformed
+ */
+export function buildEnrollmentRequest(input: PayerAuthEnrollmentInput): PayerAuthEnrollmentRequest {
+  const issues = new IssueList()
+  const transientToken = checkToken(input, issues)
+  checkOrder(input.order, issues)
+  checkReturnUrl(input.returnUrl, issues)
+  if (isBlank(input.referenceId)) issues.add('referenceId', 'is required')
+
+  if (!input.deviceInformation) {
+    issues.add('deviceInformation', 'is required')
+  } else {
+    validateDeviceInformation(input.deviceInformation).issues.forEach((issue) => {
+      issues.push({ field: `deviceInformation.${issue.field}`, message: `deviceInformation.${issue.message}` })
+    })
+  }
+  issues.throwIfAny()
+
+  const { challengeWindowSize, ipAddress, ...deviceInformation } = input.deviceInformation
+  const acsWindowSize = input.challengeWindowSize || challengeWindowSize
+
+  return {
+    ...clientReference(input.clientReferenceCode),
+    tokenInformation: { transientToken },
+    ...paymentInformation(input.token),
+    orderInformation: orderInformation(input.order),
+    deviceInformation: {
+      ...deviceInformation,
+      ...(ipAddress ? { ipAddress } : {})
+    },
+    consumerAuthenticationInformation: {
+      referenceId: input.referenceId,
+      returnUrl: input.returnUrl,
+      deviceChannel: 'BROWSER',
+      ...(acsWindowSize ? { acsWindowSize } : {})
+    }
+  }
+}
+
+/**
+ * Build the Validate Authentication Results request body
+ * (POST /risk/v1/authentication-results)
+ *
+ * @throws PayerAuthRequestError when required fields are missing or malformed
+ */
+export function buildValidationRequest(input: PayerAuthValidationInput): PayerAuthValidationRequest {
+  const issues = new IssueList()
+  const transientToken = checkToken(input, issues)
+  checkOrder(input.order, issues)
+  if (isBlank(input.authenticationTransactionId)) issues.add('authenticationTransactionId', 'is required')
+  issues.throwIfAny()
+
+  return {
+    ...clientReference(input.clientReferenceCode),
+    tokenInformation: { transientToken },
+    ...paymentInformation(input.token),
+    orderInformation: orderInformation(input.order),
+    consumerAuthenticationInformation: {
+      authenticationTransactionId: input.authenticationTransactionId
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { useContext, useEffect, useRef } from 'react'
+import type { CSSProperties } from 'react'
+import type { FlexMicroformInstance, FlexMicroformOptions } from '@richy8/cybersource-3ds-web'
+import { INITIAL_CARD_STATE, ThreeDSContext } from './context'
+
+export interface CardFieldsProps {
+  captureContext: string
+  /**
+   * Identifies these fields for useThreeDS when a page has several (default: 'default')
+   */
+  name?: string
+  /**
+   * Microform options. Read when the fields mount or the capture context changes.
+   */
+  options?: FlexMicroformOptions
+  className?: string
+  style?: CSSProperties
+  onReady?: (instance: FlexMicroformInstance) => void
+  onChange?: (fieldType: string, data: any) => void
+  onError?: (error: Error) => void
+}
+
+/**
+ * Mounts Flex Microform card fields into a ref'd element
+ */
+export function CardFields({
+  captureContext,
+  name = 'default',
+  options,
+  className,
+  style,
+  onReady,
+  onChange,
+  onError
+}: CardFieldsProps) {
+  const context = useContext(ThreeDSContext)
+  if (!context) {
+    throw new Error('<CardFields> must be used inside a <ThreeDSProvider>')
+  }
+
+  const { client, instances, updateCard, removeCard } = context
+  const containerRef = useRef<HTMLDivElement>(null)
+  const latest = useRef({ options, onReady, onChange, onError })
+  latest.current = { options, onReady, onChange, onError }
+
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+
+    // Ignore results from a setup that was torn down, e.g. by StrictMode
+    let active = true
+    const key = `react-card-fields:${name}`
+    const setupOptions = latest.current.options || {}
+    const required = ['cardNumber', 'securityCode']
+    if (setupOptions.expiryField && setupOptions.expiryField !== 'none') {
+      required.push('expiryDate')
+    }
+
+    updateCard(name, () => INITIAL_CARD_STATE)
+
+    client
+      .setupFlexMicroform(element, captureContext, {
+        ...setupOptions,
+        onFieldChange: (fieldType, data) => {
+          setupOptions.onFieldChange?.(fieldType, data)
+          latest.current.onChange?.(fieldType, data)
+          if (!active) return
+
+          updateCard(name, (state) => {
+            const fields = { ...state.fields, [fieldType]: { valid: !!data?.valid, empty: !!data?.empty } }
+            const cardType = fieldType === 'cardNumber'
+              ? (Array.isArray(data?.card) && data.card.length > 0 ? data.card[0].name : null)
+              : state.cardType
+
+            return {
+              ...state,
+              fields,
+              cardType,
+              valid: required.every((field) => fields[field]?.valid)
+            }
+          })
+        }
+      }, key)
+      .then((instance) => {
+        if (!active) return
+        instances.set(name, instance)
+        updateCard(name, (state) => ({ ...state, ready: true, error: null }))
+        latest.current.onReady?.(instance)
+      })
+      .catch((error: Error) => {
+        if (!active) return
+        updateCard(name, (state) => ({ ...state, ready: false, error }))
+        latest.current.onError?.(error)
+      })
+
+    return () => {
+      active = false
+      instances.delete(name)
+      client.destroyFlexMicroform(key)
+      removeCard(name)
+    }
+  }, [client, captureContext, name, instances, updateCard, removeCard])
+
+  return <div ref={containerRef} className={className} style={style} />
+}
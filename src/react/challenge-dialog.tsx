@@ -0,0 +1,90 @@
+import { useContext, useEffect, useRef } from 'react'
+import type { CSSProperties } from 'react'
+import type { AuthenticationResult, ChallengeModalOptions } from '@richy8/cybersource-3ds-web'
+import { ThreeDSContext } from './context'
+
+export interface ChallengeRequest {
+  stepUpUrl: string
+  accessToken: string
+  transactionId?: string
+}
+
+export interface ChallengeDialogProps {
+  /**
+   * The challenge to show, or null to show nothing. Setting it back to null
+   * closes an open challenge.
+   */
+  challenge: ChallengeRequest | null
+  options?: ChallengeModalOptions
+  /**
+   * Render the challenge in place instead of as a modal
+   */
+  inline?: boolean
+  className?: string
+  style?: CSSProperties
+  onComplete?: (result: AuthenticationResult) => void
+  onError?: (error: Error) => void
+}
+
+/**
+ * Declarative wrapper around the challenge modal and inline challenge
+ */
+export function ChallengeDialog({
+  challenge,
+  options,
+  inline = false,
+  className,
+  style,
+  onComplete,
+  onError
+}: ChallengeDialogProps) {
+  const context = useContext(ThreeDSContext)
+  if (!context) {
+    throw new Error('<ChallengeDialog> must be used inside a <ThreeDSProvider>')
+  }
+
+  const { client } = context
+  const containerRef = useRef<HTMLDivElement>(null)
+  const latest = useRef({ options, onComplete, onError })
+  latest.current = { options, onComplete, onError }
+
+  const stepUpUrl = challenge?.stepUpUrl
+  const accessToken = challenge?.accessToken
+  const transactionId = challenge?.transactionId
+
+  useEffect(() => {
+    if (!stepUpUrl || !accessToken) return
+
+    // Closing below rejects the pending challenge; don't report that
+    let active = true
+    const challengeOptions = { transactionId, ...latest.current.options }
+    const pending = inline && containerRef.current
+      ? client.showChallengeInline(containerRef.current, stepUpUrl, accessToken, challengeOptions)
+      : client.showChallengeModal(stepUpUrl, accessToken, challengeOptions)
+
+    // The modal is shared: once this challenge settles or another one
+    // replaces it, unmounting must not close someone else's challenge
+    let open = true
+    const stopWatching = client.on('challenge:shown', () => {
+      open = false
+    })
+
+    pending
+      .then((result) => {
+        open = false
+        if (active) latest.current.onComplete?.(result)
+      })
+      .catch((error: Error) => {
+        open = false
+        if (active) latest.current.onError?.(error)
+      })
+
+    return () => {
+      active = false
+      stopWatching()
+      if (open) client.closeChallengeModal()
+    }
+  }, [client, stepUpUrl, accessToken, transactionId, inline])
+
+  return inline ? <div ref={containerRef} className={className} style={style} /> : null
+}
@@ -0,0 +1,33 @@
+import { createContext } from 'react'
+import type { WebClient, FlexMicroformInstance } from '@richy8/cybersource-3ds-web'
+
+export interface FieldState {
+  valid: boolean
+  empty: boolean
+}
+
+export interface CardFieldsState {
+  ready: boolean
+  valid: boolean
+  cardType: string | null
+  fields: Record<string, FieldState>
+  error: Error | null
+}
+
+export interface ThreeDSContextValue {
+  client: WebClient
+  cards: Record<string, CardFieldsState>
+  instances: Map<string, FlexMicroformInstance>
+  updateCard: (name: string, update: (state: CardFieldsState) => CardFieldsState) => void
+  removeCard: (name: string) => void
+}
+
+export const INITIAL_CARD_STATE: CardFieldsState = {
+  ready: false,
+  valid: false,
+  cardType: null,
+  fields: {},
+  error: null
+}
+
+export const ThreeDSContext = createContext<ThreeDSContextValue | null>(null)
@@ -0,0 +1,9 @@
+export { ThreeDSProvider } from './provider'
+export type { ThreeDSProviderProps } from './provider'
+export { CardFields } from './card-fields'
+export type { CardFieldsProps } from './card-fields'
+export { ChallengeDialog } from './challenge-dialog'
+export type { ChallengeDialogProps, ChallengeRequest } from './challenge-dialog'
+export { useThreeDS } from './use-three-ds'
+export type { UseThreeDSResult } from './use-three-ds'
+export type { CardFieldsState, FieldState } from './context'
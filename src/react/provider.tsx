@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+import { WebClient } from '@richy8/cybersource-3ds-web'
+import type { WebClientOptions } from '@richy8/cybersource-3ds-web'
+import { INITIAL_CARD_STATE, ThreeDSContext } from './context'
+import type { CardFieldsState, ThreeDSContextValue } from './context'
+
+export interface ThreeDSProviderProps {
+  /**
+   * Use an existing client instead of creating one. The provider will not
+   * destroy a client it did not create.
+   */
+  client?: WebClient
+  /**
+   * Options for the client the provider creates. Read once on mount.
+   */
+  options?: WebClientOptions
+  children?: ReactNode
+}
+
+/**
+ * Provides a WebClient and card field state to CardFields, ChallengeDialog
+ * and useThreeDS
+ */
+export function ThreeDSProvider({ client: providedClient, options, children }: ThreeDSProviderProps) {
+  const [client] = useState(() => providedClient || new WebClient(options))
+  const [cards, setCards] = useState<Record<string, CardFieldsState>>({})
+  const instances = useRef(new Map()).current
+
+  // StrictMode mounts, unmounts and remounts; WebClient stays usable after
+  // destroy() and keeps listeners added with client.on, so cleaning up here
+  // is safe
+  useEffect(() => {
+    return () => {
+      if (!providedClient) client.destroy()
+    }
+  }, [client, providedClient])
+
+  const updateCard = useCallback((name: string, update: (state: CardFieldsState) => CardFieldsState) => {
+    setCards((current) => ({
+      ...current,
+      [name]: update(current[name] || INITIAL_CARD_STATE)
+    }))
+  }, [])
+
+  const removeCard = useCallback((name: string) => {
+    setCards((current) => {
+      const { [name]: _removed, ...rest } = current
+      return rest
+    })
+  }, [])
+
+  const value = useMemo<ThreeDSContextValue>(
+    () => ({ client, cards, instances, updateCard, removeCard }),
+    [client, cards, instances, updateCard, removeCard]
+  )
+
+  return <ThreeDSContext.Provider value={value}>{children}</ThreeDSContext.Provider>
+}
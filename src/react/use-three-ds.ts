@@ -0,0 +1,41 @@
+import { useCallback, useContext } from 'react'
+import { FlexInitError } from '@richy8/cybersource-3ds-web'
+import type { FlexTokenizeResult, WebClient } from '@richy8/cybersource-3ds-web'
+import { INITIAL_CARD_STATE, ThreeDSContext } from './context'
+import type { CardFieldsState } from './context'
+
+export interface UseThreeDSResult extends CardFieldsState {
+  client: WebClient
+  tokenize: (expiryMonth?: string, expiryYear?: string) => Promise<FlexTokenizeResult>
+}
+
+/**
+ * Access the client plus validity and tokenize for a CardFields instance
+ *
+ * @param name - Matches the `name` prop of the CardFields to read (default: 'default')
+ */
+export function useThreeDS(name: string = 'default'): UseThreeDSResult {
+  const context = useContext(ThreeDSContext)
+  if (!context) {
+    throw new Error('useThreeDS must be used inside a <ThreeDSProvider>')
+  }
+
+  const { client, cards, instances } = context
+
+  const tokenize = useCallback(
+    (expiryMonth?: string, expiryYear?: string) => {
+      const instance = instances.get(name)
+      if (!instance) {
+        return Promise.reject(new FlexInitError('Card fields are not ready', { code: 'FLEX_NOT_INITIALIZED' }))
+      }
+      return instance.tokenize(expiryMonth, expiryYear)
+    },
+    [instances, name]
+  )
+
+  return {
+    ...(cards[name] || INITIAL_CARD_STATE),
+    client,
+    tokenize
+  }
+}
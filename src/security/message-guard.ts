@@ -0,0 +1,188 @@
+import { Logger } from '../utils/logger'
+import type {
+  MessageRejectionReason,
+  MessageSecurityOptions,
+  RejectedMessage,
+  ThreeDSEnvironment
+} from '../types'
+
+/**
+ * Origins Cardinal Commerce posts device data and step-up messages from
+ */
+export const CARDINAL_ORIGINS: Record<ThreeDSEnvironment, string[]> = {
+  sandbox: ['https://centinelapistag.cardinalcommerce.com'],
+  production: ['https://centinelapi.cardinalcommerce.com']
+}
+
+export interface ChallengeCompletionMessage {
+  type: string
+  transactionId?: string
+  success?: boolean
+  result?: unknown
+  authTransactionId?: string
+}
+
+export interface DeviceDataMessage {
+  MessageType: string
+  SessionId?: string
+  Status?: boolean
+}
+
+/**
+ * Reduce a URL or origin string to its exact origin (scheme://host[:port])
+ */
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const origin = new URL(value).origin
+    return origin === 'null' ? null : origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Cardinal origins for the given environment, or both when unspecified
+ */
+export function getCardinalOrigins(environment?: ThreeDSEnvironment): string[] {
+  return environment
+    ? CARDINAL_ORIGINS[environment]
+    : [...CARDINAL_ORIGINS.sandbox, ...CARDINAL_ORIGINS.production]
+}
+
+/**
+ * Combine client-level security settings with per-call overrides
+ */
+export function mergeSecurityOptions(
+  base: MessageSecurityOptions = {},
+  override: MessageSecurityOptions = {}
+): MessageSecurityOptions {
+  return {
+    environment: override.environment || base.environment,
+    trustedOrigins: [...(base.trustedOrigins || []), ...(override.trustedOrigins || [])],
+    onRejectedMessage: override.onRejectedMessage || base.onRejectedMessage
+  }
+}
+
+/**
+ * Build the exact-match allowlist from defaults plus configured origins
+ */
+export function resolveTrustedOrigins(defaults: string[], options: MessageSecurityOptions = {}): Set<string> {
+  const origins = new Set<string>()
+  ;[...defaults, ...(options.trustedOrigins || [])].forEach((value) => {
+    const origin = normalizeOrigin(value)
+    if (origin) origins.add(origin)
+  })
+  return origins
+}
+
+/**
+ * Loose check for a challenge completion message: an object whose `type`
+ * is one we listen for. Anything else is unrelated page traffic.
+ */
+export function looksLikeChallengeMessage(data: unknown, types: string[]): boolean {
+  return !!data && typeof data === 'object' && types.includes((data as Record<string, unknown>).type as string)
+}
+
+/**
+ * Loose check for a Cardinal device data message (JSON string or object
+ * carrying `MessageType`)
+ */
+export function looksLikeDeviceDataMessage(data: unknown): boolean {
+  if (typeof data === 'string') return data.includes('"MessageType"')
+  return !!data && typeof data === 'object' && 'MessageType' in data
+}
+
+/**
+ * Validate a challenge completion payload posted by the return URL page
+ */
+export function parseChallengeMessage(data: unknown, types: string[]): ChallengeCompletionMessage | null {
+  if (!data || typeof data !== 'object') return null
+
+  const message = data as Record<string, unknown>
+  if (typeof message.type !== 'string' || !types.includes(message.type)) return null
+  if (message.transactionId !== undefined && typeof message.transactionId !== 'string') return null
+  if (message.authTransactionId !== undefined && typeof message.authTransactionId !== 'string') return null
+  if (message.success !== undefined && typeof message.success !== 'boolean') return null
+
+  return message as unknown as ChallengeCompletionMessage
+}
+
+/**
+ * Validate a Cardinal device data collection payload. Cardinal posts a JSON
+ * string, but an already-parsed object is accepted too.
+ */
+export function parseDeviceDataMessage(data: unknown): DeviceDataMessage | null {
+  let message: unknown = data
+  if (typeof data === 'string') {
+    try {
+      message = JSON.parse(data)
+    } catch {
+      return null
+    }
+  }
+
+  if (!message || typeof message !== 'object') return null
+
+  const payload = message as Record<string, unknown>
+  if (typeof payload.MessageType !== 'string') return null
+  if (payload.SessionId !== undefined && typeof payload.SessionId !== 'string') return null
+  if (payload.Status !== undefined && typeof payload.Status !== 'boolean') return null
+
+  return payload as unknown as DeviceDataMessage
+}
+
+/**
+ * Checks that a postMessage comes from a trusted origin and from the
+ * iframe the SDK created, and reports anything it refuses. Messages that
+ * don't look like the ones being waited for (extensions, analytics frames,
+ * devtools) are ignored without a report.
+ */
+export class MessageGuard {
+  constructor(
+    private listener: RejectedMessage['listener'],
+    private trustedOrigins: Set<string>,
+    private getSource: () => Window | null,
+    private isCandidate: (data: unknown) => boolean,
+    private onRejectedMessage?: (message: RejectedMessage) => void,
+    private logger: Logger = new Logger()
+  ) {}
+
+  /**
+   * Returns true when the message is a candidate and origin and source are
+   * both acceptable
+   */
+  verify(event: MessageEvent): boolean {
+    if (!this.isCandidate(event.data)) return false
+
+    if (!this.trustedOrigins.has(event.origin)) {
+      this.reject(event, 'untrustedOrigin')
+      return false
+    }
+
+    const source = this.getSource()
+    if (!source || event.source !== source) {
+      this.reject(event, 'unexpectedSource')
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Report a rejected message
+   */
+  reject(event: MessageEvent, reason: MessageRejectionReason): void {
+    if (!this.onRejectedMessage) return
+
+    try {
+      this.onRejectedMessage({
+        listener: this.listener,
+        reason,
+        origin: event.origin,
+        data: event.data
+      })
+    } catch (err) {
+      this.logger.error('onRejectedMessage handler failed', { error: err })
+    }
+  }
+}
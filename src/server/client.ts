@@ -0,0 +1,124 @@
+import { CyberSourceApiError } from '@richy8/cybersource-3ds-web'
+import type {
+  PayerAuthEnrollmentRequest,
+  PayerAuthSetupRequest,
+  PayerAuthValidationRequest
+} from '@richy8/cybersource-3ds-web'
+import { createHttpSignatureHeaders, createJwtAuthHeaders } from './signing'
+import type { CaptureContextRequest, CyberSourceClientOptions, PayerAuthResponse } from './types'
+
+export const CYBERSOURCE_BASE_URLS = {
+  sandbox: 'https://apitest.cybersource.com',
+  production: 'https://api.cybersource.com'
+}
+
+/**
+ * Signed client for the CyberSource REST calls behind the browser SDK:
+ * capture contexts for `setupFlexMicroform` and the three Payer
+ * Authentication calls. Pair the results with the mappers to get the
+ * arguments the browser `WebClient` expects.
+ *
+ * @example
+ * const cybs = new CyberSourceClient({
+ *   merchantId: process.env.CYBS_MERCHANT_ID,
+ *   credentials: { type: 'http_signature', keyId: process.env.CYBS_KEY_ID, sharedSecret: process.env.CYBS_SECRET }
+ * })
+ * const captureContext = await cybs.createCaptureContext({ targetOrigins: ['https://shop.example'] })
+ * const setup = toSetupResponse(await cybs.setup(buildSetupRequest({ token })))
+ */
+export class CyberSourceClient {
+  private options: CyberSourceClientOptions
+  private baseUrl: string
+  private fetchImpl: typeof fetch
+
+  constructor(options: CyberSourceClientOptions) {
+    this.options = options
+    this.baseUrl = (options.baseUrl || CYBERSOURCE_BASE_URLS[options.environment || 'sandbox']).replace(/\/+$/, '')
+    this.fetchImpl = options.fetch || fetch
+  }
+
+  /**
+   * Generate a Flex Microform capture context (a JWT) for setupFlexMicroform
+   */
+  async createCaptureContext(request: CaptureContextRequest): Promise<string> {
+    const response = await this.send('POST', '/microform/v2/sessions', {
+      clientVersion: request.clientVersion || 'v2',
+      targetOrigins: request.targetOrigins,
+      allowedCardNetworks: request.allowedCardNetworks || ['VISA', 'MASTERCARD', 'AMEX'],
+      allowedPaymentTypes: request.allowedPaymentTypes || ['CARD']
+    })
+    return typeof response === 'string' ? response.trim() : String(response)
+  }
+
+  /**
+   * Payer Authentication Setup; map with toSetupResponse
+   */
+  async setup(request: PayerAuthSetupRequest): Promise<PayerAuthResponse> {
+    return this.send('POST', '/risk/v1/authentication-setups', request) as Promise<PayerAuthResponse>
+  }
+
+  /**
+   * Check Payer Auth Enrollment; map with toEnrollmentResponse
+   */
+  async checkEnrollment(request: PayerAuthEnrollmentRequest): Promise<PayerAuthResponse> {
+    return this.send('POST', '/risk/v1/authentications', request) as Promise<PayerAuthResponse>
+  }
+
+  /**
+   * Validate Authentication Results after a challenge; map with toValidationResponse
+   */
+  async validate(request: PayerAuthValidationRequest): Promise<PayerAuthResponse> {
+    return this.send('POST', '/risk/v1/authentication-results', request) as Promise<PayerAuthResponse>
+  }
+
+  /**
+   * Sign and send a request. Returns parsed JSON, or text for non-JSON
+   * responses such as the capture context JWT.
+   */
+  async send(method: string, path: string, body?: unknown): Promise<unknown> {
+    const url = `${this.baseUrl}${path}`
+    const payload = body === undefined ? undefined : JSON.stringify(body)
+    const signable = { method, url, body: payload, merchantId: this.options.merchantId }
+    const { credentials } = this.options
+    const authHeaders = credentials.type === 'jwt'
+      ? createJwtAuthHeaders(signable, credentials)
+      : createHttpSignatureHeaders(signable, credentials)
+
+    let response: Response
+    try {
+      response = await this.fetchImpl(url, {
+        method,
+        headers: {
+          ...authHeaders,
+          'Content-Type': 'application/json;charset=utf-8',
+          Accept: 'application/hal+json;charset=utf-8, application/jwt, application/json'
+        },
+        body: payload
+      })
+    } catch (err: any) {
+      throw new CyberSourceApiError(`${method} ${path} failed: ${err?.message || err}`, { status: 0, cause: err })
+    }
+
+    const text = await response.text()
+    let parsed: unknown = text
+    if (/json/i.test(response.headers.get('content-type') || '') && text) {
+      try {
+        parsed = JSON.parse(text)
+      } catch {
+        // Keep the raw text
+      }
+    }
+
+    if (!response.ok) {
+      const details = parsed as { message?: string; errorInformation?: { message?: string } } | undefined
+      const reason = (typeof details === 'object' && (details?.message || details?.errorInformation?.message)) || response.statusText
+      throw new CyberSourceApiError(`${method} ${path} returned ${response.status}: ${reason}`, {
+        status: response.status,
+        body: parsed,
+        correlationId: response.headers.get('v-c-correlation-id') || undefined
+      })
+    }
+
+    return parsed
+  }
+}
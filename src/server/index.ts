@@ -0,0 +1,21 @@
+export { CyberSourceClient, CYBERSOURCE_BASE_URLS } from './client'
+export { createHttpSignatureHeaders, createJwtAuthHeaders, digestBody } from './signing'
+export type { SignableRequest } from './signing'
+export { toSetupResponse, toEnrollmentResponse, toValidationResponse } from './mappers'
+export { renderChallengeReturnPage, parseChallengeReturnBody } from './return-page'
+export type {
+  CyberSourceClientOptions,
+  CyberSourceCredentials,
+  HttpSignatureCredentials,
+  JwtCredentials,
+  CaptureContextRequest,
+  ConsumerAuthenticationInformation,
+  PayerAuthResponse,
+  ChallengeReturnBody,
+  ChallengeReturnPageOptions
+} from './types'
+export {
+  buildSetupRequest,
+  buildEnrollmentRequest,
+  buildValidationRequest
+} from '@richy8/cybersource-3ds-web'
@@ -0,0 +1,62 @@
+import { ThreeDSError } from '@richy8/cybersource-3ds-web'
+import type { EnrollmentResponse, SetupResponse, ValidationResponse } from '@richy8/cybersource-3ds-web'
+import type { PayerAuthResponse } from './types'
+
+/**
+ * Map a Setup response to the arguments of `collectDeviceData` (and the
+ * return value of `authenticate`'s `setup` callback)
+ */
+export function toSetupResponse(response: PayerAuthResponse): SetupResponse {
+  const info = response.consumerAuthenticationInformation
+  if (!info?.deviceDataCollectionUrl || !info.accessToken) {
+    throw new ThreeDSError(
+      `Setup response has no device data collection details (status: ${response.status || 'unknown'})`,
+      { code: 'INVALID_SETUP_RESPONSE' }
+    )
+  }
+
+  return {
+    deviceDataCollectionUrl: info.deviceDataCollectionUrl,
+    accessToken: info.accessToken,
+    referenceId: info.referenceId
+  }
+}
+
+/**
+ * Map a Check Enrollment response to what `authenticate`'s `enroll`
+ * callback returns. When a challenge is needed, `stepUpUrl`, `accessToken`
+ * and `transactionId` are the arguments for `showChallengeModal`.
+ */
+export function toEnrollmentResponse(response: PayerAuthResponse): EnrollmentResponse {
+  const info = response.consumerAuthenticationInformation || {}
+  const transactionId = info.authenticationTransactionId
+
+  if (response.status === 'PENDING_AUTHENTICATION') {
+    return {
+      challengeRequired: true,
+      stepUpUrl: info.stepUpUrl,
+      accessToken: info.accessToken,
+      transactionId,
+      result: info
+    }
+  }
+
+  return {
+    challengeRequired: false,
+    authenticated: response.status === 'AUTHENTICATION_SUCCESSFUL',
+    transactionId,
+    result: info
+  }
+}
+
+/**
+ * Map a Validate Authentication Results response to what `authenticate`'s
+ * `validate` callback returns. `result` carries the ECI, CAVV and other
+ * values the authorization needs.
+ */
+export function toValidationResponse(response: PayerAuthResponse): ValidationResponse {
+  return {
+    success: response.status === 'AUTHENTICATION_SUCCESSFUL',
+    result: response.consumerAuthenticationInformation
+  }
+}
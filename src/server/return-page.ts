@@ -0,0 +1,93 @@
+import { ThreeDSError, buildChallengeCompletionMessage } from '@richy8/cybersource-3ds-web'
+import type { ChallengeCompletionPayload, ChallengeReturnFields } from '@richy8/cybersource-3ds-web'
+import type { ChallengeReturnBody, ChallengeReturnPageOptions } from './types'
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+// JSON that is safe to embed in an inline script
+const toScript = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029')
+
+const firstString = (value: unknown): string | undefined => {
+  const first = Array.isArray(value) ? value[0] : value
+  return typeof first === 'string' && first ? first : undefined
+}
+
+/**
+ * Pick `TransactionId`, `Response` and `MD` out of a return URL POST body
+ */
+export function parseChallengeReturnBody(body: ChallengeReturnBody): ChallengeReturnFields {
+  const params = typeof body === 'string' ? new URLSearchParams(body) : body
+  if (params instanceof URLSearchParams) {
+    return {
+      TransactionId: params.get('TransactionId') || undefined,
+      Response: params.get('Response') || undefined,
+      MD: params.get('MD') || undefined
+    }
+  }
+
+  return {
+    TransactionId: firstString(params.TransactionId),
+    Response: firstString(params.Response),
+    MD: firstString(params.MD)
+  }
+}
+
+function toExactOrigin(value: string): string {
+  try {
+    const origin = new URL(value).origin
+    if (origin !== 'null') return origin
+  } catch {
+    // fall through
+  }
+  throw new ThreeDSError(`Challenge return needs an explicit target origin, got "${value}"`, {
+    code: 'CHALLENGE_RETURN_FAILED'
+  })
+}
+
+/**
+ * Render the challenge return URL page. It posts the completion message
+ * ChallengeModal expects to the parent frame (or popup opener), only to
+ * `targetOrigin`. Serve it as `text/html` in response to the ACS POST.
+ *
+ * @example
+ * app.post('/3ds/return', express.urlencoded({ extended: false }), (req, res) => {
+ *   res.type('html').send(renderChallengeReturnPage({ body: req.body, targetOrigin: 'https://shop.example' }))
+ * })
+ */
+export function renderChallengeReturnPage(options: ChallengeReturnPageOptions): string {
+  const targetOrigin = toExactOrigin(options.targetOrigin)
+  const message: ChallengeCompletionPayload = buildChallengeCompletionMessage(
+    parseChallengeReturnBody(options.body),
+    options.messageType
+  )
+  const nonce = options.nonce ? ` nonce="${escapeHtml(options.nonce)}"` : ''
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Returning to checkout</title>
+</head>
+<body>
+<p id="status">Returning to checkout</p>
+<script${nonce}>
+(function () {
+  var message = ${toScript(message)};
+  var targetOrigin = ${toScript(targetOrigin)};
+  var target = ${toScript(options.target || 'auto')};
+  var parent = window.parent !== window ? window.parent : null;
+  var opener = window.opener && !window.opener.closed ? window.opener : null;
+  var win = target === 'parent' ? parent : target === 'opener' ? opener : parent || opener;
+  if (!win) {
+    document.getElementById('status').textContent = 'You can close this window.';
+    return;
+  }
+  win.postMessage(message, targetOrigin);
+  if (win === opener && ${toScript(options.closePopup !== false)}) window.close();
+})();
+</script>
+</body>
+</html>`
+}
@@ -0,0 +1,90 @@
+import { createHash, createHmac, createSign } from 'node:crypto'
+import type { HttpSignatureCredentials, JwtCredentials } from './types'
+
+export interface SignableRequest {
+  method: string
+  url: string
+  body?: string
+  merchantId: string
+  /**
+   * Default: now
+   */
+  date?: Date
+}
+
+/**
+ * SHA-256 digest of a request body, base64 encoded
+ */
+export function digestBody(body: string): string {
+  return createHash('sha256').update(body, 'utf8').digest('base64')
+}
+
+const hasBody = (method: string) => !['GET', 'DELETE', 'HEAD'].includes(method.toUpperCase())
+
+/**
+ * Headers for CyberSource HTTP Signature authentication
+ * (HmacSHA256 over host, date, request-target, digest and v-c-merchant-id)
+ */
+export function createHttpSignatureHeaders(
+  request: SignableRequest,
+  credentials: Omit<HttpSignatureCredentials, 'type'>
+): Record<string, string> {
+  const url = new URL(request.url)
+  const date = (request.date || new Date()).toUTCString()
+  const method = request.method.toLowerCase()
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    date,
+    'request-target': `${method} ${url.pathname}${url.search}`
+  }
+  if (hasBody(method)) {
+    headers.digest = `SHA-256=${digestBody(request.body || '')}`
+  }
+  headers['v-c-merchant-id'] = request.merchantId
+
+  const names = Object.keys(headers)
+  const signingString = names.map((name) => `${name}: ${headers[name]}`).join('\n')
+  const signature = createHmac('sha256', Buffer.from(credentials.sharedSecret, 'base64'))
+    .update(signingString, 'utf8')
+    .digest('base64')
+
+  const result: Record<string, string> = {
+    'v-c-merchant-id': request.merchantId,
+    Date: date,
+    Host: url.host,
+    Signature: `keyid="${credentials.keyId}", algorithm="HmacSHA256", headers="${names.join(' ')}", signature="${signature}"`
+  }
+  if (headers.digest) {
+    result.Digest = headers.digest
+  }
+  return result
+}
+
+const base64Url = (value: Buffer | string): string => Buffer.from(value).toString('base64url')
+
+/**
+ * Headers for CyberSource JWT authentication: an RS256 token carrying the
+ * body digest, signed with the .p12 private key
+ */
+export function createJwtAuthHeaders(
+  request: SignableRequest,
+  credentials: Omit<JwtCredentials, 'type'>
+): Record<string, string> {
+  const date = request.date || new Date()
+  const header = { 'v-c-merchant-id': request.merchantId, alg: 'RS256', kid: credentials.keyId }
+  const claims: Record<string, unknown> = { iat: Math.floor(date.getTime() / 1000) }
+  if (hasBody(request.method)) {
+    claims.digest = digestBody(request.body || '')
+    claims.digestAlgorithm = 'SHA-256'
+  }
+
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(credentials.privateKey)
+
+  return {
+    'v-c-merchant-id': request.merchantId,
+    Date: date.toUTCString(),
+    Authorization: `Bearer ${unsigned}.${base64Url(signature)}`
+  }
+}
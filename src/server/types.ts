@@ -0,0 +1,115 @@
+import type { ChallengeReturnTarget, ThreeDSEnvironment } from '@richy8/cybersource-3ds-web'
+
+export interface HttpSignatureCredentials {
+  type: 'http_signature'
+  /**
+   * Shared secret key id from the Business Center
+   */
+  keyId: string
+  /**
+   * Base64 shared secret
+   */
+  sharedSecret: string
+}
+
+export interface JwtCredentials {
+  type: 'jwt'
+  /**
+   * Serial number of the certificate in your .p12 file
+   */
+  keyId: string
+  /**
+   * PEM private key from your .p12 file
+   * (`openssl pkcs12 -in key.p12 -nocerts -nodes`)
+   */
+  privateKey: string
+}
+
+export type CyberSourceCredentials = HttpSignatureCredentials | JwtCredentials
+
+export interface CyberSourceClientOptions {
+  merchantId: string
+  credentials: CyberSourceCredentials
+  /**
+   * Selects the API host when baseUrl is not set (default: 'sandbox')
+   */
+  environment?: ThreeDSEnvironment
+  /**
+   * Override the API host, e.g. to point at a local stand-in
+   */
+  baseUrl?: string
+  /**
+   * Default: the global fetch
+   */
+  fetch?: typeof fetch
+}
+
+export interface CaptureContextRequest {
+  /**
+   * Origins allowed to host the microform, e.g. ['https://shop.example']
+   */
+  targetOrigins: string[]
+  /**
+   * Default: ['VISA', 'MASTERCARD', 'AMEX']
+   */
+  allowedCardNetworks?: string[]
+  /**
+   * Default: ['CARD']
+   */
+  allowedPaymentTypes?: string[]
+  /**
+   * Default: 'v2'
+   */
+  clientVersion?: string
+}
+
+export interface ConsumerAuthenticationInformation {
+  accessToken?: string
+  deviceDataCollectionUrl?: string
+  referenceId?: string
+  token?: string
+  stepUpUrl?: string
+  authenticationTransactionId?: string
+  acsTransactionId?: string
+  veresEnrolled?: string
+  paresStatus?: string
+  eci?: string
+  eciRaw?: string
+  cavv?: string
+  ucafAuthenticationData?: string
+  xid?: string
+  directoryServerTransactionId?: string
+  specificationVersion?: string
+  [key: string]: unknown
+}
+
+export interface PayerAuthResponse {
+  id?: string
+  status?: string
+  submitTimeUtc?: string
+  clientReferenceInformation?: { code?: string }
+  consumerAuthenticationInformation?: ConsumerAuthenticationInformation
+  errorInformation?: { reason?: string; message?: string }
+  [key: string]: unknown
+}
+
+/**
+ * A parsed form body: a raw urlencoded string, URLSearchParams, or the
+ * object body parsers produce
+ */
+export type ChallengeReturnBody = string | URLSearchParams | Record<string, unknown>
+
+export interface ChallengeReturnPageOptions {
+  /** The POST body the ACS / Cardinal sent to your return URL */
+  body: ChallengeReturnBody
+  /** Exact origin of your checkout page. `'*'` is refused. */
+  targetOrigin: string
+  /** Must match ChallengeModalOptions.completionMessageType (default: '3DS_COMPLETE') */
+  messageType?: string
+  /** Window to notify (default: 'auto', the parent frame or else the opener) */
+  target?: ChallengeReturnTarget
+  /** Close a popup after posting (default: true) */
+  closePopup?: boolean
+  /** CSP nonce for the inline script */
+  nonce?: string
+}
@@ -0,0 +1,58 @@
+import { startSimulator, SCENARIOS } from './index'
+import type { SimulatorScenario } from './index'
+
+const USAGE = `Usage: cybs-3ds-simulator [--port 8787] [--host 127.0.0.1] [--scenario challenge-success] [--auto-submit]
+
+Scenarios: ${SCENARIOS.join(', ')}`
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {}
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith('--')) continue
+    const next = argv[i + 1]
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next
+      i++
+    } else {
+      args[arg.slice(2)] = true
+    }
+  }
+  return args
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2))
+  if (args.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const scenario = typeof args.scenario === 'string' ? args.scenario : undefined
+  if (scenario && !(SCENARIOS as string[]).includes(scenario)) {
+    console.error(`Unknown scenario "${scenario}"\n\n${USAGE}`)
+    process.exitCode = 1
+    return
+  }
+
+  const simulator = await startSimulator({
+    port: typeof args.port === 'string' ? parseInt(args.port, 10) : 8787,
+    host: typeof args.host === 'string' ? args.host : undefined,
+    scenario: scenario as SimulatorScenario | undefined,
+    autoSubmit: args['auto-submit'] === true
+  })
+
+  console.log(`3DS simulator listening on ${simulator.origin}`)
+  console.log(`  DDC:     ${simulator.deviceDataCollectionUrl}`)
+  console.log(`  Step-up: ${simulator.stepUpUrl}`)
+  console.log(`Add "${simulator.origin}" to trustedOrigins in WebClient options.`)
+
+  process.on('SIGINT', () => {
+    simulator.close().then(() => process.exit(0))
+  })
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exitCode = 1
+})
@@ -0,0 +1,207 @@
+import { createServer } from 'node:http'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { getCompletion, isScenario, SCENARIOS } from './scenarios'
+import type { SimulatorScenario } from './scenarios'
+import { renderChallengePage, renderCompletionPage, renderDeviceDataPage, renderIndexPage } from './pages'
+
+export { SCENARIOS }
+export type { SimulatorScenario }
+
+export interface SimulatorOptions {
+  /**
+   * Scenario used when a request does not pick one with `?scenario=`
+   * (default: 'challenge-success')
+   */
+  scenario?: SimulatorScenario
+  /**
+   * Delay before the DDC page posts profile.completed, in ms (default: 200)
+   */
+  deviceDataDelay?: number
+  /**
+   * Submit the OTP form automatically, for browser automation (default: false).
+   * `?auto=1` on the step-up URL does the same per request.
+   */
+  autoSubmit?: boolean
+  /**
+   * Message type posted when the access token has no ReturnUrl
+   * (default: '3DS_COMPLETE')
+   */
+  completionMessageType?: string
+}
+
+export interface StartSimulatorOptions extends SimulatorOptions {
+  port?: number
+  host?: string
+}
+
+export interface RunningSimulator {
+  server: Server
+  /**
+   * Origin the simulator pages post from. Add it to the SDK's
+   * `trustedOrigins`.
+   */
+  origin: string
+  deviceDataCollectionUrl: string
+  stepUpUrl: string
+  close: () => Promise<void>
+}
+
+const MAX_BODY_BYTES = 1024 * 1024
+
+/**
+ * Read a urlencoded form body
+ */
+function readForm(req: IncomingMessage): Promise<Record<string, string>> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.setEncoding('utf8')
+    req.on('data', (chunk: string) => {
+      body += chunk
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'))
+        req.destroy()
+      }
+    })
+    req.on('end', () => resolve(Object.fromEntries(new URLSearchParams(body))))
+    req.on('error', reject)
+  })
+}
+
+/**
+ * Decode a JWT payload without verifying it. The simulator only needs the
+ * transaction id and return URL.
+ */
+function decodeJwt(token: string | undefined): Record<string, any> {
+  const payload = token?.split('.')[1]
+  if (!payload) return {}
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Transaction id from a Cardinal step-up JWT, falling back to its jti
+ */
+function getTransactionId(claims: Record<string, any>): string {
+  return claims.Payload?.TransactionId || claims.TransactionId || claims.transactionId || claims.jti || 'simulated-transaction'
+}
+
+function send(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store'
+  })
+  res.end(html)
+}
+
+/**
+ * Request handler serving the DDC and step-up endpoints. Mount it in your
+ * own server, or use startSimulator.
+ *
+ * Routes:
+ * - POST /ddc: device data collection page (accepts the `JWT` form field)
+ * - POST /step-up: OTP challenge page (accepts the `JWT` form field)
+ * - POST /step-up/complete: result page posting the completion message
+ */
+export function createSimulatorHandler(options: SimulatorOptions = {}) {
+  const defaultScenario = options.scenario || 'challenge-success'
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
+    const requested = url.searchParams.get('scenario')
+    const scenario = isScenario(requested) ? requested : defaultScenario
+
+    try {
+      if (req.method === 'GET' && url.pathname === '/') {
+        send(res, 200, renderIndexPage(url.origin, defaultScenario))
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/ddc') {
+        const form = await readForm(req)
+        if (!form.JWT) {
+          send(res, 400, 'Missing JWT')
+          return
+        }
+        send(res, 200, renderDeviceDataPage({
+          scenario,
+          sessionId: `0_${decodeJwt(form.JWT).jti || Date.now().toString(36)}`,
+          delay: options.deviceDataDelay ?? 200
+        }))
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/step-up') {
+        const form = await readForm(req)
+        if (!form.JWT) {
+          send(res, 400, 'Missing JWT')
+          return
+        }
+        const transactionId = getTransactionId(decodeJwt(form.JWT))
+        send(res, 200, renderChallengePage({
+          scenario,
+          transactionId,
+          autoSubmit: options.autoSubmit || url.searchParams.get('auto') === '1',
+          action: `/step-up/complete?scenario=${scenario}`,
+          fields: {
+            JWT: form.JWT,
+            // The step-up form is posted by the merchant page, so this is
+            // where the completion message must go
+            targetOrigin: req.headers.origin && req.headers.origin !== 'null' ? req.headers.origin : '*'
+          }
+        }))
+        return
+      }
+
+      if (req.method === 'POST' && url.pathname === '/step-up/complete') {
+        const form = await readForm(req)
+        const claims = decodeJwt(form.JWT)
+        send(res, 200, renderCompletionPage({
+          completion: getCompletion(scenario, getTransactionId(claims)),
+          returnUrl: typeof claims.ReturnUrl === 'string' ? claims.ReturnUrl : undefined,
+          md: typeof claims.Payload?.MD === 'string' ? claims.Payload.MD : undefined,
+          targetOrigin: form.targetOrigin || '*',
+          completionMessageType: options.completionMessageType || '3DS_COMPLETE'
+        }))
+        return
+      }
+
+      send(res, 404, 'Not found')
+    } catch (err: any) {
+      send(res, 400, `Bad request: ${err.message}`)
+    }
+  }
+}
+
+/**
+ * Start the simulator on a local port (default: a free one)
+ *
+ * @example
+ * const sim = await startSimulator({ scenario: 'challenge-fail' })
+ * const client = new WebClient({ trustedOrigins: [sim.origin] })
+ * await client.collectDeviceData(sim.deviceDataCollectionUrl, anyJwt)
+ * await client.showChallengeModal(sim.stepUpUrl, anyJwt)
+ * await sim.close()
+ */
+export function startSimulator(options: StartSimulatorOptions = {}): Promise<RunningSimulator> {
+  const server = createServer(createSimulatorHandler(options))
+  const host = options.host || '127.0.0.1'
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port ?? 0, host, () => {
+      const { port } = server.address() as AddressInfo
+      const origin = `http://${host.includes(':') ? `[${host}]` : host}:${port}`
+      resolve({
+        server,
+        origin,
+        deviceDataCollectionUrl: `${origin}/ddc`,
+        stepUpUrl: `${origin}/step-up`,
+        close: () => new Promise((done, fail) => server.close((err) => (err ? fail(err) : done())))
+      })
+    })
+  })
+}
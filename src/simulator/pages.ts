@@ -0,0 +1,129 @@
+import type { SimulatorScenario } from './scenarios'
+import { SCENARIOS } from './scenarios'
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+// JSON that is safe to embed in an inline script
+const toScript = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029')
+
+const layout = (title: string, body: string): string => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 24px; color: #1a1a1a; }
+  h1 { font-size: 18px; margin: 0 0 8px; }
+  p { font-size: 14px; color: #4b5563; }
+  input { font-size: 18px; padding: 8px 12px; width: 140px; letter-spacing: 4px; }
+  button { font-size: 14px; padding: 10px 16px; border: 0; border-radius: 6px; background: #4f46e5; color: white; cursor: pointer; }
+  code { background: #f3f4f6; padding: 2px 4px; border-radius: 4px; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`
+
+const hiddenFields = (fields: Record<string, string>): string =>
+  Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('\n')
+
+/**
+ * Hidden DDC page: posts Cardinal's profile.completed message to the parent
+ */
+export function renderDeviceDataPage(options: {
+  scenario: SimulatorScenario
+  sessionId: string
+  delay: number
+}): string {
+  if (options.scenario === 'never-responds') {
+    return layout('Device data collection', '<p>Collecting device data (never responds)</p>')
+  }
+
+  const message = JSON.stringify({ MessageType: 'profile.completed', SessionId: options.sessionId, Status: true })
+  return layout('Device data collection', `<p>Collecting device data</p>
+<script>
+  setTimeout(function () {
+    window.parent.postMessage(${toScript(message)}, '*')
+  }, ${options.delay})
+</script>`)
+}
+
+/**
+ * OTP challenge page. Frictionless skips straight to completion.
+ */
+export function renderChallengePage(options: {
+  scenario: SimulatorScenario
+  transactionId: string
+  fields: Record<string, string>
+  autoSubmit: boolean
+  action: string
+}): string {
+  const autoSubmit = options.autoSubmit || options.scenario === 'frictionless'
+
+  return layout('Verify your purchase', `<h1>Simulated issuer</h1>
+<p>Scenario <code>${escapeHtml(options.scenario)}</code>, transaction <code>${escapeHtml(options.transactionId)}</code>.</p>
+<form id="otp" method="POST" action="${escapeHtml(options.action)}">
+${hiddenFields(options.fields)}
+<p><label for="code">Enter any one-time code</label></p>
+<p><input id="code" name="otp" inputmode="numeric" autocomplete="one-time-code" maxlength="6" value="${autoSubmit ? '123456' : ''}" autofocus></p>
+<button type="submit">Submit</button>
+</form>
+${autoSubmit ? "<script>document.getElementById('otp').submit()</script>" : ''}`)
+}
+
+/**
+ * Result page. With a merchant ReturnUrl it posts there, like a real ACS;
+ * otherwise it posts the SDK completion message to the parent itself.
+ */
+export function renderCompletionPage(options: {
+  completion: { transactionId: string; success: boolean; status: 'Y' | 'N' } | null
+  returnUrl?: string
+  md?: string
+  targetOrigin: string
+  completionMessageType: string
+}): string {
+  const { completion } = options
+  if (!completion) {
+    return layout('Verifying', '<p>Verifying your code (never responds)</p>')
+  }
+
+  if (options.returnUrl) {
+    const response = Buffer.from(JSON.stringify({
+      transStatus: completion.status,
+      threeDSServerTransID: completion.transactionId,
+      messageType: 'CRes'
+    })).toString('base64')
+
+    return layout('Returning to merchant', `<form id="return" method="POST" action="${escapeHtml(options.returnUrl)}">
+${hiddenFields({ TransactionId: completion.transactionId, Response: response, MD: options.md || '' })}
+</form>
+<script>document.getElementById('return').submit()</script>`)
+  }
+
+  const message = {
+    type: options.completionMessageType,
+    transactionId: completion.transactionId,
+    success: completion.success,
+    result: { status: completion.status }
+  }
+  return layout('Verification complete', `<p>${completion.success ? 'Verified' : 'Verification failed'}</p>
+<script>window.parent.postMessage(${toScript(message)}, ${toScript(options.targetOrigin)})</script>`)
+}
+
+/**
+ * Index page listing the endpoints and scenarios
+ */
+export function renderIndexPage(baseUrl: string, scenario: SimulatorScenario): string {
+  const rows = SCENARIOS.map((name) => `<li><code>${escapeHtml(name)}</code>${name === scenario ? ' (default)' : ''}</li>`).join('')
+  return layout('3DS simulator', `<h1>3DS simulator</h1>
+<p>DDC: <code>POST ${escapeHtml(baseUrl)}/ddc</code></p>
+<p>Step-up: <code>POST ${escapeHtml(baseUrl)}/step-up</code></p>
+<p>Add <code>?scenario=&lt;name&gt;</code> to either URL to pick a scenario per request:</p>
+<ul>${rows}</ul>`)
+}
@@ -0,0 +1,46 @@
+/**
+ * Scripted outcomes for the simulator:
+ * - frictionless: DDC completes and the step-up page completes at once, without an OTP
+ * - challenge-success: DDC completes; the OTP page authenticates
+ * - challenge-fail: DDC completes; the OTP page reports a failed authentication
+ * - never-responds: neither page posts a message, so the SDK timeouts fire
+ * - wrong-transaction-id: the completion message names another transaction
+ */
+export type SimulatorScenario =
+  | 'frictionless'
+  | 'challenge-success'
+  | 'challenge-fail'
+  | 'never-responds'
+  | 'wrong-transaction-id'
+
+export const SCENARIOS: SimulatorScenario[] = [
+  'frictionless',
+  'challenge-success',
+  'challenge-fail',
+  'never-responds',
+  'wrong-transaction-id'
+]
+
+export function isScenario(value: unknown): value is SimulatorScenario {
+  return typeof value === 'string' && (SCENARIOS as string[]).includes(value)
+}
+
+/**
+ * The completion message the step-up flow ends with, or null when the
+ * scenario never answers
+ */
+export function getCompletion(
+  scenario: SimulatorScenario,
+  transactionId: string
+): { transactionId: string; success: boolean; status: 'Y' | 'N' } | null {
+  switch (scenario) {
+    case 'never-responds':
+      return null
+    case 'challenge-fail':
+      return { transactionId, success: false, status: 'N' }
+    case 'wrong-transaction-id':
+      return { transactionId: `${transactionId}-other`, success: true, status: 'Y' }
+    default:
+      return { transactionId, success: true, status: 'Y' }
+  }
+}
@@ -0,0 +1,263 @@
+import { createFakeTransientToken } from './tokens'
+import type { FakeCard } from './tokens'
+
+/**
+ * Field names as Flex knows them, plus the SDK's `cardNumber` alias
+ */
+export type FakeFieldType = 'number' | 'securityCode' | 'cardNumber'
+
+export interface FakeFlexOptions {
+  /**
+   * SDK shape to install: v1 `FLEX.microform(options, cb)` or v2
+   * `new Flex(captureContext).microform('card')` (default: 'v2')
+   */
+  version?: 'v1' | 'v2'
+  /**
+   * Make v1 setup fail with this error
+   */
+  setupError?: { message: string; [key: string]: unknown }
+}
+
+export interface FakeFlexError {
+  reason?: string
+  message: string
+  details?: Array<{ location: string; message: string }>
+}
+
+export interface FakeTokenRequest {
+  expirationMonth: string
+  expirationYear: string
+}
+
+type Listener = (data: any) => void
+
+// The SDK globals live on window under either name
+const globals = (): Record<'FLEX' | 'Flex', any> => window as any
+
+/**
+ * A Flex field. Mounts a placeholder element instead of a card iframe.
+ */
+export class FakeFlexField {
+  readonly type: string
+  readonly options: any
+  element: HTMLElement | null = null
+  private listeners: Map<string, Listener[]> = new Map()
+
+  constructor(type: string, options: any) {
+    this.type = type
+    this.options = options
+  }
+
+  load(container: string | HTMLElement): void {
+    const target = typeof container === 'string' ? document.querySelector<HTMLElement>(container) : container
+    if (!target) {
+      throw new Error(`Fake Flex: container ${container} not found`)
+    }
+    this.element = document.createElement('div')
+    this.element.setAttribute('data-fake-flex-field', this.type)
+    target.appendChild(this.element)
+  }
+
+  on(event: string, listener: Listener): void {
+    this.listeners.set(event, [...(this.listeners.get(event) || []), listener])
+  }
+
+  off(event: string, listener: Listener): void {
+    this.listeners.set(event, (this.listeners.get(event) || []).filter((item) => item !== listener))
+  }
+
+  emit(event: string, data?: any): void {
+    const listeners = this.listeners.get(event) || []
+    listeners.forEach((listener) => listener(data))
+  }
+
+  focus(): void {}
+
+  clear(): void {}
+
+  remove(): void {
+    this.element?.remove()
+    this.element = null
+    this.listeners.clear()
+  }
+}
+
+/**
+ * A microform as returned by either SDK shape
+ */
+export class FakeMicroform {
+  readonly fields: Map<string, FakeFlexField> = new Map()
+
+  constructor(private controller: FakeFlex) {}
+
+  createField(type: string, options?: any): FakeFlexField {
+    const field = new FakeFlexField(type, options)
+    this.fields.set(type, field)
+    return field
+  }
+
+  createToken(options: FakeTokenRequest, callback: (error: any, token?: string) => void): void {
+    this.controller.tokenRequests.push(options)
+    const outcome = this.controller.nextTokenOutcome(options)
+    // Flex always answers asynchronously
+    Promise.resolve().then(() => {
+      if ('error' in outcome) {
+        callback(outcome.error)
+      } else {
+        callback(null, outcome.token)
+      }
+    })
+  }
+}
+
+/**
+ * Controls an installed fake Flex SDK from a test
+ */
+export class FakeFlex {
+  readonly version: 'v1' | 'v2'
+  readonly microforms: FakeMicroform[] = []
+  readonly tokenRequests: FakeTokenRequest[] = []
+  /**
+   * Capture context (v2) or key id (v1) passed to the last setup
+   */
+  captureContext: string | null = null
+  private outcome: { card: FakeCard } | { error: FakeFlexError } = { card: {} }
+  private previous: { FLEX: unknown; Flex: unknown }
+
+  constructor(private options: FakeFlexOptions = {}) {
+    this.version = options.version || 'v2'
+    this.previous = { FLEX: globals().FLEX, Flex: globals().Flex }
+  }
+
+  /**
+   * The most recently created microform
+   */
+  get microform(): FakeMicroform | undefined {
+    return this.microforms[this.microforms.length - 1]
+  }
+
+  /**
+   * A field of the most recent microform
+   */
+  field(type: FakeFieldType): FakeFlexField | undefined {
+    return this.microform?.fields.get(type === 'cardNumber' ? 'number' : type)
+  }
+
+  /**
+   * Fire a Flex `change` event on a field
+   *
+   * @example
+   * fake.emitFieldChange('cardNumber', { valid: true, card: [{ name: 'visa' }] })
+   */
+  emitFieldChange(type: FakeFieldType, data: Record<string, unknown> = {}): void {
+    const field = this.field(type)
+    if (!field) {
+      throw new Error(`Fake Flex: no ${type} field has been created`)
+    }
+    field.emit('change', { empty: false, valid: true, couldBeValid: true, ...data })
+  }
+
+  /**
+   * Make createToken succeed with a transient token for this card
+   */
+  succeedWith(card: FakeCard = {}): void {
+    this.outcome = { card }
+  }
+
+  /**
+   * Make createToken fail. Defaults to a validation error on the card number.
+   */
+  failWith(error: Partial<FakeFlexError> = {}): void {
+    this.outcome = {
+      error: {
+        reason: 'CREATE_TOKEN_VALIDATION_FIELDS',
+        message: 'One or more fields contains invalid data',
+        details: [{ location: 'number', message: 'Validation error' }],
+        ...error
+      }
+    }
+  }
+
+  /** @internal */
+  nextTokenOutcome(request: FakeTokenRequest): { token: string } | { error: FakeFlexError } {
+    if ('error' in this.outcome) return { error: this.outcome.error }
+    return {
+      token: createFakeTransientToken({
+        expirationMonth: request.expirationMonth,
+        expirationYear: request.expirationYear,
+        ...this.outcome.card
+      })
+    }
+  }
+
+  /** @internal */
+  install(): void {
+    const createMicroform = () => {
+      const microform = new FakeMicroform(this)
+      this.microforms.push(microform)
+      return microform
+    }
+
+    if (this.version === 'v1') {
+      delete globals().Flex
+      globals().FLEX = {
+        microform: (setupOptions: any, callback: (error: any, instance?: FakeMicroform) => void) => {
+          this.captureContext = setupOptions?.keyId ?? null
+          const setupError = this.options.setupError
+          Promise.resolve().then(() => {
+            if (setupError) {
+              callback(setupError)
+            } else {
+              callback(null, createMicroform())
+            }
+          })
+        }
+      }
+      return
+    }
+
+    const controller = this
+    delete globals().FLEX
+    globals().Flex = class {
+      constructor(captureContext: string) {
+        controller.captureContext = captureContext
+      }
+
+      microform(_type?: string) {
+        return createMicroform()
+      }
+    }
+  }
+
+  /**
+   * Remove the fake and restore whatever globals were there before
+   */
+  uninstall(): void {
+    const names: Array<'FLEX' | 'Flex'> = ['FLEX', 'Flex']
+    names.forEach((name) => {
+      if (this.previous[name] === undefined) {
+        delete globals()[name]
+      } else {
+        globals()[name] = this.previous[name]
+      }
+    })
+  }
+}
+
+/**
+ * Install a deterministic Flex SDK on `window` for tests.
+ * createToken succeeds with a Visa transient token until told otherwise.
+ *
+ * @example
+ * const flex = installFakeFlex()
+ * const instance = await client.setupFlexMicroform('card', createFakeCaptureContext())
+ * flex.emitFieldChange('cardNumber', { valid: true })
+ * flex.succeedWith({ type: 'mastercard', bin: '555555', suffix: '4444' })
+ * const { maskedPan } = await instance.tokenize('12', '2030')
+ * flex.uninstall()
+ */
+export function installFakeFlex(options?: FakeFlexOptions): FakeFlex {
+  const fake = new FakeFlex(options)
+  fake.install()
+  return fake
+}
@@ -0,0 +1,18 @@
+export { installFakeFlex, FakeFlex, FakeMicroform, FakeFlexField } from './fake-flex'
+export type { FakeFlexOptions, FakeFlexError, FakeFieldType, FakeTokenRequest } from './fake-flex'
+export { createFakeJwt, createFakeTransientToken, createFakeCaptureContext, resetFakeIds } from './tokens'
+export type { FakeCard, FakeCaptureContextOptions, FakeTokenOptions } from './tokens'
+export {
+  captureFormSubmissions,
+  waitForElement,
+  postFromFrame,
+  simulateDeviceDataComplete,
+  simulateChallengeComplete,
+  simulateChallengeCancel
+} from './simulate'
+export type {
+  FormSubmission,
+  WaitOptions,
+  SimulateDeviceDataOptions,
+  SimulateChallengeOptions
+} from './simulate'
@@ -0,0 +1,157 @@
+import { CARDINAL_ORIGINS } from '@richy8/cybersource-3ds-web'
+import { fakeHex, nextFakeSeed } from './tokens'
+
+export interface WaitOptions {
+  /**
+   * How long to wait for the SDK to mount its iframe, in ms (default: 1000).
+   * Uses real timers.
+   */
+  timeout?: number
+}
+
+export interface SimulateDeviceDataOptions extends WaitOptions {
+  sessionId?: string
+  status?: boolean
+  /**
+   * Origin the message appears to come from (default: Cardinal sandbox)
+   */
+  origin?: string
+}
+
+export interface SimulateChallengeOptions extends WaitOptions {
+  transactionId?: string
+  success?: boolean
+  result?: unknown
+  authTransactionId?: string
+  /**
+   * Message type (default: '3DS_COMPLETE')
+   */
+  type?: string
+  /**
+   * Origin the message appears to come from (default: the page origin,
+   * where the return URL page normally lives)
+   */
+  origin?: string
+}
+
+export interface FormSubmission {
+  action: string
+  target: string
+  fields: Record<string, string>
+}
+
+/**
+ * Record form posts instead of submitting them. jsdom does not implement
+ * form.submit(), and the SDK posts the DDC and step-up JWTs this way.
+ *
+ * @example
+ * const forms = captureFormSubmissions()
+ * client.collectDeviceData(url, jwt)
+ * expect(forms.submissions[0].fields.JWT).toBe(jwt)
+ * forms.restore()
+ */
+export function captureFormSubmissions(): { submissions: FormSubmission[]; restore: () => void } {
+  const submissions: FormSubmission[] = []
+  const original = HTMLFormElement.prototype.submit
+
+  HTMLFormElement.prototype.submit = function (this: HTMLFormElement) {
+    const fields: Record<string, string> = {}
+    Array.from(this.elements).forEach((element) => {
+      if (element instanceof HTMLInputElement && element.name) fields[element.name] = element.value
+    })
+    submissions.push({ action: this.action, target: this.target, fields })
+  }
+
+  return {
+    submissions,
+    restore: () => {
+      HTMLFormElement.prototype.submit = original
+    }
+  }
+}
+
+/**
+ * Wait for an element the SDK mounts asynchronously, e.g. after the
+ * setup and enrollment steps of client.authenticate()
+ */
+export function waitForElement<T extends Element>(selector: string, options: WaitOptions = {}): Promise<T> {
+  const timeout = options.timeout ?? 1000
+  const started = Date.now()
+
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      const element = document.querySelector<T>(selector)
+      if (element) {
+        resolve(element)
+      } else if (Date.now() - started >= timeout) {
+        reject(new Error(`Timed out after ${timeout}ms waiting for ${selector}`))
+      } else {
+        setTimeout(poll, 10)
+      }
+    }
+    poll()
+  })
+}
+
+/**
+ * Post a message to the page as if it came from an iframe's window
+ */
+export function postFromFrame(frame: HTMLIFrameElement, data: unknown, origin: string): void {
+  window.dispatchEvent(new MessageEvent('message', {
+    data,
+    origin,
+    source: frame.contentWindow
+  }))
+}
+
+/**
+ * Answer a pending device data collection with Cardinal's
+ * `profile.completed` message
+ */
+export async function simulateDeviceDataComplete(options: SimulateDeviceDataOptions = {}): Promise<void> {
+  const frame = await waitForElement<HTMLIFrameElement>('#cardinal_collection_iframe', options)
+  postFromFrame(frame, JSON.stringify({
+    MessageType: 'profile.completed',
+    SessionId: options.sessionId ?? `0_${fakeHex(8, nextFakeSeed())}`,
+    Status: options.status ?? true
+  }), options.origin ?? CARDINAL_ORIGINS.sandbox[0])
+}
+
+/**
+ * Answer a pending challenge with the completion message the return URL
+ * page posts
+ */
+export async function simulateChallengeComplete(options: SimulateChallengeOptions = {}): Promise<void> {
+  const frame = await waitForElement<HTMLIFrameElement>('#step_up_iframe', options)
+  const message: Record<string, unknown> = {
+    type: options.type ?? '3DS_COMPLETE',
+    success: options.success ?? true
+  }
+  if (options.transactionId !== undefined) message.transactionId = options.transactionId
+  if (options.authTransactionId !== undefined) message.authTransactionId = options.authTransactionId
+  if (options.result !== undefined) message.result = options.result
+
+  postFromFrame(frame, message, options.origin ?? window.location.origin)
+}
+
+/**
+ * Cancel a pending challenge the way a customer would: with the Cancel
+ * button or the Escape key. Both reject with ChallengeCancelledError.
+ */
+export async function simulateChallengeCancel(
+  via: 'cancelButton' | 'escapeKey' = 'cancelButton',
+  options: WaitOptions = {}
+): Promise<void> {
+  const modal = await waitForElement<HTMLElement>('#threeds-modal', options)
+
+  if (via === 'escapeKey') {
+    modal.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }))
+    return
+  }
+
+  const button = modal.querySelector<HTMLButtonElement>('button')
+  if (!button) {
+    throw new Error('The challenge modal has no Cancel button (showCancelButton is false)')
+  }
+  button.click()
+}
@@ -0,0 +1,155 @@
+/**
+ * Makes fakes repeat exactly across runs
+ */
+export interface FakeTokenOptions {
+  /**
+   * Seed for the token's ids and signature (default: the next value of
+   * the sequence reset by resetFakeIds)
+   */
+  seed?: number
+  /**
+   * Unix seconds for `iat`; `exp` follows from it (default: now)
+   */
+  issuedAt?: number
+}
+
+export interface FakeCard extends FakeTokenOptions {
+  /**
+   * First six digits (default: '411111')
+   */
+  bin?: string
+  /**
+   * Last four digits (default: '1111')
+   */
+  suffix?: string
+  /**
+   * Detected card type (default: 'visa')
+   */
+  type?: string
+  expirationMonth?: string
+  expirationYear?: string
+}
+
+export interface FakeCaptureContextOptions extends FakeTokenOptions {
+  /**
+   * Seconds until the context expires (default: 900, Flex's 15 minutes)
+   */
+  expiresInSeconds?: number
+  clientLibrary?: string
+  clientLibraryIntegrity?: string
+  targetOrigins?: string[]
+  allowedCardNetworks?: string[]
+}
+
+const base64Url = (value: string): string =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+let sequence = 0
+
+/**
+ * Restart the sequence that seeds fake ids, e.g. in `beforeEach`, so each
+ * test gets the same tokens and session ids on every run
+ */
+export function resetFakeIds(seed: number = 0): void {
+  sequence = seed
+}
+
+/**
+ * Next seed from the shared sequence
+ */
+export function nextFakeSeed(): number {
+  return ++sequence
+}
+
+/**
+ * Hex string derived only from the seed (mulberry32), in place of random ids
+ */
+export function fakeHex(length: number, seed: number): string {
+  let state = seed >>> 0
+  let hex = ''
+  while (hex.length < length) {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    hex += ((t ^ (t >>> 14)) >>> 0).toString(16).padStart(8, '0')
+  }
+  return hex.slice(0, length)
+}
+
+const issuedAt = (options: FakeTokenOptions): number =>
+  options.issuedAt ?? Math.floor(Date.now() / 1000)
+
+/**
+ * Build an unsigned JWT with the given payload. The signature segment is
+ * filler derived from `seed`, so the token only decodes; it never verifies.
+ */
+export function createFakeJwt(
+  payload: Record<string, unknown>,
+  header: Record<string, unknown> = {},
+  seed: number = nextFakeSeed()
+): string {
+  return [
+    base64Url(JSON.stringify({ kid: fakeHex(8, seed), alg: 'RS256', ...header })),
+    base64Url(JSON.stringify(payload)),
+    base64Url(fakeHex(64, seed + 1))
+  ].join('.')
+}
+
+/**
+ * A transient token shaped like the ones Flex Microform returns from
+ * createToken, so maskedPan and cardType decode as they would in production
+ */
+export function createFakeTransientToken(card: FakeCard = {}): string {
+  const bin = card.bin ?? '411111'
+  const suffix = card.suffix ?? '1111'
+  const now = issuedAt(card)
+  const seed = card.seed ?? nextFakeSeed()
+
+  return createFakeJwt({
+    iss: 'Flex/08',
+    exp: now + 15 * 60,
+    type: 'mf-2.0.0',
+    iat: now,
+    jti: `1E${fakeHex(30, seed + 2).toUpperCase()}`,
+    content: {
+      paymentInformation: {
+        card: {
+          number: {
+            detectedCardTypes: [card.type ?? 'visa'],
+            maskedValue: `${'X'.repeat(12)}${suffix}`,
+            bin,
+            suffix
+          },
+          ...(card.expirationMonth ? { expirationMonth: { value: card.expirationMonth } } : {}),
+          ...(card.expirationYear ? { expirationYear: { value: card.expirationYear } } : {})
+        }
+      }
+    }
+  }, {}, seed)
+}
+
+/**
+ * A capture context JWT with the claims parseCaptureContext reads. Leave
+ * clientLibrary unset to stop FlexMicroform from loading a script.
+ */
+export function createFakeCaptureContext(options: FakeCaptureContextOptions = {}): string {
+  const now = issuedAt(options)
+  const seed = options.seed ?? nextFakeSeed()
+  const data: Record<string, unknown> = {
+    targetOrigins: options.targetOrigins ?? [typeof window !== 'undefined' ? window.location.origin : 'http://localhost'],
+    allowedCardNetworks: options.allowedCardNetworks ?? ['VISA', 'MASTERCARD', 'AMEX'],
+    allowedPaymentTypes: ['CARD']
+  }
+  if (options.clientLibrary) data.clientLibrary = options.clientLibrary
+  if (options.clientLibraryIntegrity) data.clientLibraryIntegrity = options.clientLibraryIntegrity
+
+  return createFakeJwt({
+    flx: { path: '/flex/v2/tokens', data: fakeHex(32, seed + 2), origin: 'https://testflex.cybersource.com', jwk: {} },
+    ctx: [{ data, type: 'mf-2.0.0' }],
+    iss: 'Flex API',
+    exp: now + (options.expiresInSeconds ?? 15 * 60),
+    iat: now,
+    jti: fakeHex(16, seed + 3)
+  }, {}, seed)
+}
@@ -1,9 +1,202 @@
-export interface DeviceDataOptions {
+import type { ChallengeCancelReason } from '../errors'
+
+export type ThreeDSEnvironment = 'sandbox' | 'production'
+
+export type MessageRejectionReason = 'untrustedOrigin' | 'unexpectedSource' | 'invalidPayload'
+
+export interface RejectedMessage {
+  listener: 'deviceData' | 'challenge'
+  reason: MessageRejectionReason
+  origin: string
+  data: unknown
+}
+
+export interface MessageSecurityOptions {
+  /**
+   * Selects the Cardinal origins trusted by default. When omitted both
+   * sandbox and production origins are accepted.
+   */
+  environment?: ThreeDSEnvironment
+  /**
+   * Additional exact origins to trust, e.g. the origin of your challenge return URL
+   */
+  trustedOrigins?: string[]
+  /**
+   * Called for every postMessage the SDK refuses to act on
+   */
+  onRejectedMessage?: (message: RejectedMessage) => void
+}
+
+// Theme Types
+export interface ThemeColors {
+  primary: string
+  onPrimary: string
+  background: string
+  fieldBackground: string
+  surface: string
+  text: string
+  label: string
+  mutedText: string
+  border: string
+  divider: string
+  focusRing: string
+  valid: string
+  invalid: string
+  overlay: string
+}
+
+export interface ThemeTypography {
+  fontFamily: string
+  fontSize: string
+  labelFontSize: string
+  labelFontWeight: string
+  smallFontSize: string
+}
+
+export interface ThemeRadius {
+  field: string
+  modal: string
+  frame: string
+}
+
+export interface ThemeSpacing {
+  fieldPadding: string
+  fieldHeight: string
+  labelGap: string
+  errorGap: string
+  modalPadding: string
+}
+
+export interface ThreeDSTheme {
+  colors: ThemeColors
+  typography: ThemeTypography
+  radius: ThemeRadius
+  spacing: ThemeSpacing
+}
+
+export type ThemeMode = 'light' | 'dark' | 'auto'
+
+/**
+ * A built-in theme name, or token overrides on top of one
+ */
+export type ThemeInput = ThemeMode | {
+  mode?: ThemeMode
+  colors?: Partial<ThemeColors>
+  typography?: Partial<ThemeTypography>
+  radius?: Partial<ThemeRadius>
+  spacing?: Partial<ThemeSpacing>
+}
+
+// Localization Types
+export interface LocaleMessages {
+  challengeTitle: string
+  challengeDescription: string
+  challengeFooter: string
+  challengeCancel: string
+  challengeFrameTitle: string
+  cardNumberLabel: string
+  securityCodeLabel: string
+  securityCodeShortLabel: string
+  expiryDateLabel: string
+  expiryMonthLabel: string
+  expiryYearLabel: string
+  expiryDatePlaceholder: string
+  expiryMonthPlaceholder: string
+  expiryYearPlaceholder: string
+  fieldInvalid: string
+  cardNumberInvalid: string
+  securityCodeInvalid: string
+  expiryRequired: string
+  expiryInvalid: string
+  expiryExpired: string
+  tokenizeFailed: string
+  tokenizeTimeout: string
+  tokenizeNetworkError: string
+  cardDetailsInvalid: string
+  fieldsNotLoaded: string
+  captureContextExpired: string
+}
+
+export interface LocaleOptions {
+  /**
+   * BCP 47 locale, e.g. 'fr' or 'pt-BR'. Bundled packs: en, fr, ar, pt.
+   */
+  locale?: string
+  /**
+   * Per-key overrides on top of the locale pack
+   */
+  messages?: Partial<LocaleMessages>
+}
+
+export interface WebClientOptions extends MessageSecurityOptions, LocaleOptions {
+  /**
+   * Theme shared by the microform and the challenge modal (default: 'light')
+   */
+  theme?: ThemeInput
+  /**
+   * Default IP resolution for collectBrowserInfo (default: 'none')
+   */
+  ipResolver?: IpResolver
+  /**
+   * Where SDK log records go and from which level. A function is the
+   * handler. Silent by default when `environment` is 'production'.
+   */
+  logger?: LoggerOptions | LogHandler
+}
+
+export interface DeviceDataOptions extends MessageSecurityOptions {
   timeout?: number
 }
 
-export interface ChallengeModalOptions {
+/**
+ * Outcome of device data collection
+ */
+export interface DeviceDataResult {
+  /**
+   * Cardinal reported completion and did not report Status: false.
+   * Never true after a timeout.
+   */
+  success: boolean
+  /**
+   * No completion message arrived before the timeout
+   */
+  timedOut: boolean
+  /**
+   * Cardinal session id; send it as referenceId / fingerprintSessionId on enrollment
+   */
+  sessionId?: string
+  /**
+   * Status reported by Cardinal
+   */
+  status?: boolean
+  messageType?: string
+  /**
+   * The message exactly as Cardinal posted it (usually a JSON string)
+   */
+  raw?: unknown
+  /**
+   * Time from starting collection to completion or timeout, in ms
+   */
+  durationMs: number
+}
+
+/**
+ * EMV 3DS `challengeWindowSize`:
+ * 01 = 250x400, 02 = 390x400, 03 = 500x600, 04 = 600x400, 05 = full screen
+ */
+export type ChallengeWindowSize = '01' | '02' | '03' | '04' | '05'
+
+export interface ChallengeModalOptions extends MessageSecurityOptions {
   timeout?: number
+  windowSize?: ChallengeWindowSize
+  /**
+   * Cancel the challenge when Escape is pressed (default: true)
+   */
+  closeOnEscape?: boolean
+  /**
+   * Render a Cancel button in the modal footer (default: true)
+   */
+  showCancelButton?: boolean
   customStyles?: Partial<ModalStyles>
   transactionId?: string
   completionMessageType?: string
@@ -15,6 +208,67 @@ export interface AuthenticationResult {
   authTransactionId?: string
 }
 
+/**
+ * Fields the ACS / Cardinal posts to the challenge return URL
+ */
+export interface ChallengeReturnFields {
+  TransactionId?: string
+  /** Base64url-encoded CRes JSON */
+  Response?: string
+  MD?: string
+}
+
+/**
+ * `result` of the completion message built from a return URL POST
+ */
+export interface ChallengeReturnDetails {
+  /** EMV `transStatus` from the CRes (Y = authenticated) */
+  status?: string
+  /** Decoded CRes, when `Response` was readable */
+  cres?: Record<string, unknown>
+  md?: string
+  /**
+   * No readable `transStatus` was posted, so `success` is false; only the
+   * validation call can tell the outcome
+   */
+  statusUnavailable?: boolean
+}
+
+/**
+ * The message ChallengeModal waits for, as posted by the return page
+ */
+export interface ChallengeCompletionPayload {
+  type: string
+  transactionId?: string
+  success: boolean
+  result: ChallengeReturnDetails
+  authTransactionId?: string
+}
+
+export type ChallengeReturnTarget = 'auto' | 'parent' | 'opener'
+
+export interface ChallengeReturnOptions {
+  /**
+   * Exact origin of the page running the challenge. `'*'` is refused.
+   */
+  targetOrigin: string
+  /**
+   * Fields the ACS posted to the return URL. A static page cannot read a
+   * POST body, so the server must hand them over, e.g. by redirecting with
+   * them in the query string and passing `new URLSearchParams(location.search)`.
+   */
+  fields: ChallengeReturnFields | URLSearchParams
+  /**
+   * Which window receives the message: the parent frame, the opener of a
+   * popup, or whichever exists (default: 'auto')
+   */
+  target?: ChallengeReturnTarget
+  /** Must match ChallengeModalOptions.completionMessageType (default: '3DS_COMPLETE') */
+  messageType?: string
+  /** Close a popup after posting (default: true) */
+  closePopup?: boolean
+}
+
 export interface ModalStyles {
   overlay: Record<string, string>
   modal: Record<string, string>
@@ -22,14 +276,24 @@ export interface ModalStyles {
   iframeContainer: Record<string, string>
   iframe: Record<string, string>
   footer: Record<string, string>
+  cancelButton: Record<string, string>
 }
 
 // Flex Microform Types
-export interface FlexMicroformOptions {
+export interface FlexMicroformOptions extends LocaleOptions {
   layout?: 'default' | 'inline'
+  /**
+   * Render SDK-managed expiry inputs: a single `MM/YY` field or separate
+   * month and year fields. When enabled, tokenize() can be called without
+   * arguments.
+   */
+  expiryField?: 'none' | 'single' | 'separate'
   labels?: {
     cardNumber?: string
     securityCode?: string
+    expiryDate?: string
+    expiryMonth?: string
+    expiryYear?: string
   }
   placeholders?: {
     cardNumber?: string
@@ -62,7 +326,49 @@ export interface FlexMicroformOptions {
   }
   fieldStyles?: FlexFieldStyles
   flexOptions?: any
+  /**
+   * Theme for this microform. customStyles still override individual values.
+   */
+  theme?: ThemeInput
+  /**
+   * Load the Flex Microform script named in the capture context when it is
+   * not already on the page (default: true)
+   */
+  autoLoadLibrary?: boolean
   onFieldChange?: (fieldType: string, data: any) => void
+  /**
+   * Called once when the capture context is about to expire
+   */
+  onCaptureContextExpiring?: (info: CaptureContextExpiryInfo) => void
+  /**
+   * How long before expiry onCaptureContextExpiring fires, in ms (default: 60000)
+   */
+  captureContextWarningMs?: number
+  /**
+   * Fetch a fresh capture context from your backend. When provided, the
+   * fields are re-initialised as soon as the current context expires.
+   */
+  refreshCaptureContext?: () => Promise<string>
+}
+
+export interface CaptureContextClaims {
+  /** When the capture context stops being accepted, if it carries an `exp` claim */
+  expiresAt: Date | null
+  issuedAt: Date | null
+  /** Flex Microform script URL and its Subresource Integrity hash */
+  clientLibrary?: string
+  clientLibraryIntegrity?: string
+  /** Page origins allowed to host the microform */
+  targetOrigins: string[]
+  allowedCardNetworks: string[]
+  allowedPaymentTypes: string[]
+  /** Decoded JWT payload */
+  raw: Record<string, any>
+}
+
+export interface CaptureContextExpiryInfo {
+  expiresAt: Date
+  remainingMs: number
 }
 
 export interface FlexFieldStyles {
@@ -71,7 +377,7 @@ export interface FlexFieldStyles {
 }
 
 export interface FlexMicroformInstance {
-  tokenize: (expiryMonth: string, expiryYear: string) => Promise<FlexTokenizeResult>
+  tokenize: (expiryMonth?: string, expiryYear?: string) => Promise<FlexTokenizeResult>
   on: (event: string, callback: Function) => void
   destroy: () => void
 }
@@ -86,7 +392,12 @@ export interface FlexTokenizeResult {
 
 export interface DeviceInformation {
   ipAddress: string | null
-  httpAcceptContent: string
+  /**
+   * Accept header from the customer's browser. Browsers cannot read it, so
+   * it is only set when your server passes it in.
+   */
+  httpAcceptContent?: string
+  httpAcceptBrowserValue?: string
   httpBrowserLanguage: string
   httpBrowserJavaEnabled: string
   httpBrowserJavaScriptEnabled: string
@@ -95,4 +406,329 @@ export interface DeviceInformation {
   httpBrowserScreenWidth: string
   httpBrowserTimeDifference: string
   userAgentBrowserValue: string
+  /**
+   * Challenge window size to request; sent as
+   * consumerAuthenticationInformation.acsWindowSize
+   */
+  challengeWindowSize?: ChallengeWindowSize
+}
+
+/**
+ * Where the customer's IP address comes from:
+ * - 'none': leave it null and let your backend take it from the request
+ * - { ipAddress }: a value your server already knows
+ * - a function, e.g. one that asks your own backend
+ */
+export type IpResolver =
+  | 'none'
+  | { ipAddress: string | null }
+  | (() => string | null | Promise<string | null>)
+
+export interface BrowserInfoOptions {
+  /**
+   * Default: the client's ipResolver, otherwise 'none'
+   */
+  ipResolver?: IpResolver
+  /**
+   * The Accept header your server received from this browser (default: a
+   * standard browser navigation Accept header)
+   */
+  acceptHeader?: string
+  /**
+   * Default: the size that fits the current viewport
+   */
+  challengeWindowSize?: ChallengeWindowSize
+}
+
+export type DeviceInformationIssueReason = 'missing' | 'invalid'
+
+export interface DeviceInformationIssue {
+  field: keyof DeviceInformation
+  reason: DeviceInformationIssueReason
+  value: unknown
+  message: string
+}
+
+export interface DeviceInformationValidation {
+  valid: boolean
+  issues: DeviceInformationIssue[]
+}
+
+// Authentication Flow Types
+export type AuthenticationState =
+  | 'idle'
+  | 'collectingDeviceData'
+  | 'enrolling'
+  | 'challenge'
+  | 'validating'
+  | 'completed'
+  | 'failed'
+
+export interface AuthenticationStateChange {
+  from: AuthenticationState
+  to: AuthenticationState
+  error?: Error
+}
+
+export type AuthenticationStateListener = (change: AuthenticationStateChange) => void
+
+export interface SetupResponse {
+  deviceDataCollectionUrl: string
+  accessToken: string
+  referenceId?: string
+}
+
+export interface EnrollmentRequest {
+  /**
+   * From the setup response, or Cardinal's session id when setup has none
+   */
+  referenceId?: string
+  deviceData: DeviceDataResult
+}
+
+export interface EnrollmentResponse {
+  challengeRequired: boolean
+  /**
+   * Required when `challengeRequired` is false: whether the frictionless
+   * authentication succeeded. authenticate() fails with
+   * INVALID_ENROLLMENT_RESPONSE when it is missing.
+   */
+  authenticated?: boolean
+  stepUpUrl?: string
+  accessToken?: string
+  transactionId?: string
+  result?: any
+}
+
+export interface ValidationRequest {
+  referenceId?: string
+  transactionId?: string
+  challenge: AuthenticationResult
+}
+
+export interface ValidationResponse {
+  success: boolean
+  result?: any
+}
+
+export interface AuthenticateOptions {
+  setup: () => Promise<SetupResponse>
+  enroll: (request: EnrollmentRequest) => Promise<EnrollmentResponse>
+  validate: (request: ValidationRequest) => Promise<ValidationResponse>
+  deviceDataOptions?: DeviceDataOptions
+  challengeOptions?: ChallengeModalOptions
+  onStateChange?: AuthenticationStateListener
+}
+
+export interface AuthenticationOutcome {
+  state: 'completed' | 'failed'
+  success: boolean
+  frictionless: boolean
+  transactionId?: string
+  enrollment?: EnrollmentResponse
+  challenge?: AuthenticationResult
+  validation?: ValidationResponse
+  error?: Error
+}
+
+// Payer Authentication Request Types
+export type CardNetworkCode = '001' | '002' | '003' | '004' | '005' | '006' | '007' | '036' | '042' | '054' | '058' | '062'
+
+export interface PayerAuthBillTo {
+  firstName?: string
+  lastName?: string
+  address1?: string
+  address2?: string
+  locality?: string
+  administrativeArea?: string
+  postalCode?: string
+  /**
+   * ISO 3166-1 alpha-2 country code
+   */
+  country?: string
+  email?: string
+  phoneNumber?: string
+}
+
+export interface PayerAuthOrder {
+  /**
+   * Decimal amount in major units, e.g. '10.99'
+   */
+  amount: string | number
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string
+  billTo?: PayerAuthBillTo
+}
+
+export interface PayerAuthCommonInput {
+  /**
+   * The tokenize() result, or a bare transient token
+   */
+  token: FlexTokenizeResult | string
+  /**
+   * Your order or cart reference, sent as clientReferenceInformation.code
+   */
+  clientReferenceCode?: string
+}
+
+export interface PayerAuthSetupInput extends PayerAuthCommonInput {}
+
+export interface PayerAuthEnrollmentInput extends PayerAuthCommonInput {
+  order: PayerAuthOrder
+  deviceInformation: DeviceInformation
+  /**
+   * Reference id from setup, or the DDC session id
+   */
+  referenceId: string
+  /**
+   * Where the ACS posts the challenge result
+   */
+  returnUrl: string
+  /**
+   * Default: deviceInformation.challengeWindowSize
+   */
+  challengeWindowSize?: ChallengeWindowSize
+}
+
+export interface PayerAuthValidationInput extends PayerAuthCommonInput {
+  order: PayerAuthOrder
+  /**
+   * From the enrollment response, or the challenge result's authTransactionId
+   */
+  authenticationTransactionId: string
+}
+
+export interface PayerAuthPaymentInformation {
+  card: {
+    expirationMonth?: string
+    expirationYear?: string
+    type?: CardNetworkCode
+  }
+}
+
+export interface PayerAuthOrderInformation {
+  amountDetails: {
+    totalAmount: string
+    currency: string
+  }
+  billTo?: PayerAuthBillTo
+}
+
+export interface PayerAuthSetupRequest {
+  clientReferenceInformation?: { code: string }
+  tokenInformation: { transientToken: string }
+  paymentInformation?: PayerAuthPaymentInformation
+}
+
+export interface PayerAuthEnrollmentRequest {
+  clientReferenceInformation?: { code: string }
+  tokenInformation: { transientToken: string }
+  paymentInformation?: PayerAuthPaymentInformation
+  orderInformation: PayerAuthOrderInformation
+  deviceInformation: Omit<DeviceInformation, 'challengeWindowSize' | 'ipAddress'> & { ipAddress?: string }
+  consumerAuthenticationInformation: {
+    referenceId: string
+    returnUrl: string
+    deviceChannel: 'BROWSER'
+    acsWindowSize?: ChallengeWindowSize
+  }
+}
+
+export interface PayerAuthValidationRequest {
+  clientReferenceInformation?: { code: string }
+  tokenInformation: { transientToken: string }
+  paymentInformation?: PayerAuthPaymentInformation
+  orderInformation: PayerAuthOrderInformation
+  consumerAuthenticationInformation: {
+    authenticationTransactionId: string
+  }
+}
+
+export interface PayerAuthRequestIssue {
+  /**
+   * Path of the offending input, e.g. 'order.currency'
+   */
+  field: string
+  message: string
+}
+
+// Lifecycle Event Types
+export type ChallengeMode = 'modal' | 'inline'
+
+export interface ChallengeEventDetails {
+  mode: ChallengeMode
+  transactionId?: string
+}
+
+export interface FlexEventDetails {
+  /**
+   * Microform key passed to (or derived by) setupFlexMicroform
+   */
+  key: string
+}
+
+/**
+ * Events emitted by WebClient, keyed by name, with their payloads
+ */
+export interface ThreeDSEventMap {
+  'deviceData:started': { url: string }
+  'deviceData:completed': DeviceDataResult
+  'deviceData:timedOut': DeviceDataResult
+  'deviceData:failed': { error: Error }
+  'challenge:shown': ChallengeEventDetails
+  'challenge:submitted': ChallengeEventDetails
+  /**
+   * Fires for every page the challenge iframe loads: the ACS page, then the
+   * return URL page
+   */
+  'challenge:loaded': ChallengeEventDetails
+  'challenge:completed': ChallengeEventDetails & { result: AuthenticationResult }
+  'challenge:timedOut': ChallengeEventDetails
+  'challenge:cancelled': ChallengeEventDetails & { reason: ChallengeCancelReason }
+  'flex:ready': FlexEventDetails
+  'flex:failed': FlexEventDetails & { error: Error }
+  'tokenize:started': FlexEventDetails
+  'tokenize:succeeded': FlexEventDetails & { cardType: string; maskedPan: string }
+  'tokenize:failed': FlexEventDetails & { error: Error }
+}
+
+export type ThreeDSEventType = keyof ThreeDSEventMap
+
+export type ThreeDSEventListener<K extends ThreeDSEventType> = (payload: ThreeDSEventMap[K]) => void
+
+// Logging Types
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * A structured log entry. `message` and `data` are redacted before the
+ * handler sees them.
+ */
+export interface LogRecord {
+  level: LogLevel
+  message: string
+  /**
+   * Component that logged, e.g. 'ChallengeModal'
+   */
+  source: string
+  /**
+   * ISO 8601 timestamp
+   */
+  time: string
+  data?: Record<string, unknown>
+}
+
+export type LogHandler = (record: LogRecord) => void
+
+export interface LoggerOptions {
+  /**
+   * Lowest level emitted (default: 'silent' when `environment` is
+   * 'production', otherwise 'warn')
+   */
+  level?: LogLevel | 'silent'
+  /**
+   * Receives each record (default: the console)
+   */
+  handler?: LogHandler
 }
@@ -1,40 +1,70 @@
-import type { DeviceInformation } from '../types'
+import type { BrowserInfoOptions, DeviceInformation, IpResolver } from '../types'
+import { assertBrowser } from '../utils'
+import { Logger } from '../utils/logger'
+import { normalizeColorDepth, normalizeTimeZoneOffset } from '../utils/device-information'
+import { selectChallengeWindowSize } from './challenge-window-size'
+
+// EMV 3DS caps the user agent at 2048 characters
+const MAX_USER_AGENT_LENGTH = 2048
+
+// What browsers send for a page navigation; used when the caller doesn't
+// pass the Accept header their server actually received
+const DEFAULT_ACCEPT_HEADER = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+
+/**
+ * Resolve the customer's IP address. Nothing is fetched from third parties;
+ * a custom resolver decides where the address comes from.
+ */
+async function resolveIpAddress(resolver: IpResolver | undefined, logger: Logger): Promise<string | null> {
+    if (!resolver || resolver === 'none') return null
+    if (typeof resolver !== 'function') return resolver.ipAddress
+
+    try {
+        return await resolver()
+    } catch (err) {
+        logger.warn('IP resolver failed, proceeding without an IP address', { error: err })
+        return null
+    }
+}
 
 /**
  * Collect device information directly from the browser
  * This mimics the structure required by Cybersource / Cardinal Commerce
  * but runs asynchronously in the client context without an iframe.
- * 
- * @param ipAddress - Optional IP address if already known
+ * Values are normalised to the EMV 3DS 2.2 browser data formats; check
+ * the result with validateDeviceInformation.
+ *
+ * @param options - IP resolution, the Accept header your server received
+ *   and the challenge window size. A string is the known IP address.
+ * @param logger - Receives resolver failures (default: console, warn level)
  */
-export const collectBrowserInfo = async (ipAddress: string | null = null): Promise<DeviceInformation> => {
-    let activeIp = ipAddress
-
-    // Fetch public IP if not provided
-    if (!activeIp) {
-        try {
-            const response = await fetch('https://api.ipify.org?format=json')
-            const data = await response.json()
-            activeIp = data.ip
-        } catch (err) {
-            console.warn('Could not fetch public IP, proceeding without it:', err)
-        }
-    }
+export const collectBrowserInfo = async (
+    options: BrowserInfoOptions | string | null = {},
+    logger: Logger = new Logger()
+): Promise<DeviceInformation> => {
+    assertBrowser('collectBrowserInfo')
+
+    const resolved: BrowserInfoOptions = typeof options === 'string' || options === null
+        ? { ipResolver: { ipAddress: options } }
+        : options
 
     const nav = window.navigator
     const screen = window.screen
     const date = new Date()
 
     return {
-        ipAddress: activeIp,
-        httpAcceptContent: '*/*', // Default to accepting all content
+        ipAddress: await resolveIpAddress(resolved.ipResolver, logger.forSource('collectBrowserInfo')),
+        httpAcceptContent: resolved.acceptHeader || DEFAULT_ACCEPT_HEADER,
+        httpAcceptBrowserValue: resolved.acceptHeader || DEFAULT_ACCEPT_HEADER,
         httpBrowserLanguage: nav.language || 'en-US',
-        httpBrowserJavaEnabled: nav.javaEnabled() ? 'Y' : 'N',
+        // Browsers no longer run Java applets; navigator.javaEnabled() is deprecated
+        httpBrowserJavaEnabled: 'N',
         httpBrowserJavaScriptEnabled: 'Y', // We are running in JS, so yes
-        httpBrowserColorDepth: screen.colorDepth.toString(),
+        httpBrowserColorDepth: normalizeColorDepth(screen.colorDepth),
         httpBrowserScreenHeight: screen.height.toString(),
         httpBrowserScreenWidth: screen.width.toString(),
-        httpBrowserTimeDifference: date.getTimezoneOffset().toString(), // Offset in minutes
-        userAgentBrowserValue: nav.userAgent
+        httpBrowserTimeDifference: normalizeTimeZoneOffset(date.getTimezoneOffset()),
+        userAgentBrowserValue: nav.userAgent.slice(0, MAX_USER_AGENT_LENGTH),
+        challengeWindowSize: resolved.challengeWindowSize || selectChallengeWindowSize()
     }
 }
@@ -1,14 +1,57 @@
-import type { ChallengeModalOptions, AuthenticationResult, ModalStyles } from '../types'
-import { getDefaultStyles, applyStyles } from './modal-styles'
+import type {
+  ChallengeModalOptions,
+  AuthenticationResult,
+  ModalStyles,
+  MessageSecurityOptions,
+  ThemeInput,
+  LocaleOptions,
+  ChallengeEventDetails,
+  ChallengeMode,
+  ThreeDSEventMap
+} from '../types'
+import { getDefaultStyles, applyStyles, mergeStyles } from './modal-styles'
+import { resolveTheme } from './theme'
+import { resolveLocale } from '../i18n'
+import type { ResolvedLocale } from '../i18n'
+import { getWindowSizeStyles } from './challenge-window-size'
+import { ChallengeCancelledError, ChallengeTimeoutError, ThreeDSError } from '../errors'
+import type { ChallengeCancelReason } from '../errors'
+import { assertBrowser } from '../utils'
+import { EventEmitter } from '../utils/event-emitter'
+import { Logger } from '../utils/logger'
+import {
+  MessageGuard,
+  looksLikeChallengeMessage,
+  mergeSecurityOptions,
+  parseChallengeMessage,
+  resolveTrustedOrigins
+} from '../security/message-guard'
 
 export class ChallengeModal {
-  private overlay: HTMLDivElement | null = null
+  private root: HTMLDivElement | null = null
   private modal: HTMLDivElement | null = null
   private iframe: HTMLIFrameElement | null = null
   private form: HTMLFormElement | null = null
   private messageListener: ((event: MessageEvent) => void) | null = null
   private customStyles: Partial<ModalStyles> = {}
+  private theme: ThemeInput = 'light'
+  private locale: ResolvedLocale = resolveLocale()
   private currentReject: ((reason?: any) => void) | null = null
+  private timeoutId: ReturnType<typeof setTimeout> | null = null
+  private securityOptions: MessageSecurityOptions
+  private previousFocus: HTMLElement | null = null
+  private inertElements: HTMLElement[] = []
+  private keydownListener: ((event: KeyboardEvent) => void) | null = null
+  private focusListener: ((event: FocusEvent) => void) | null = null
+  private events: EventEmitter<ThreeDSEventMap>
+  private eventDetails: ChallengeEventDetails | null = null
+  private logger: Logger
+
+  constructor(securityOptions?: MessageSecurityOptions, events?: EventEmitter<ThreeDSEventMap>, logger?: Logger) {
+    this.securityOptions = securityOptions || {}
+    this.events = events || new EventEmitter(logger)
+    this.logger = (logger || new Logger()).forSource('ChallengeModal')
+  }
 
   /**
    * Show challenge modal
@@ -17,55 +60,249 @@ export class ChallengeModal {
     stepUpUrl: string,
     accessToken: string,
     options?: ChallengeModalOptions
+  ): Promise<AuthenticationResult> {
+    assertBrowser('ChallengeModal.show')
+    this.close()
+    this.logger.debug('Showing challenge modal')
+
+    const styles = this.resolveStyles(options)
+    const messages = this.locale.messages
+
+    // Create overlay
+    this.root = document.createElement('div')
+    this.root.id = 'threeds-modal-overlay'
+    applyStyles(this.root, styles.overlay)
+    document.body.appendChild(this.root)
+
+    // Create modal container
+    this.modal = document.createElement('div')
+    this.modal.id = 'threeds-modal'
+    this.modal.tabIndex = -1
+    this.modal.dir = this.locale.dir
+    this.modal.lang = this.locale.locale
+    this.modal.setAttribute('role', 'dialog')
+    this.modal.setAttribute('aria-modal', 'true')
+    this.modal.setAttribute('aria-labelledby', 'threeds-modal-title')
+    this.modal.setAttribute('aria-describedby', 'threeds-modal-description')
+    applyStyles(this.modal, styles.modal)
+
+    // Create header
+    const header = document.createElement('div')
+    applyStyles(header, styles.header)
+    const title = document.createElement('h2')
+    title.id = 'threeds-modal-title'
+    title.style.cssText = 'margin: 0; font-size: 18px; font-weight: 600;'
+    title.innerHTML = '<span aria-hidden="true">🔒 </span>'
+    title.appendChild(document.createTextNode(messages.challengeTitle))
+
+    const description = document.createElement('p')
+    description.id = 'threeds-modal-description'
+    description.style.cssText = 'margin: 8px 0 0 0; font-size: 13px; opacity: 0.9;'
+    description.textContent = messages.challengeDescription
+
+    header.appendChild(title)
+    header.appendChild(description)
+
+    // Create iframe container
+    const iframeContainer = document.createElement('div')
+    applyStyles(iframeContainer, styles.iframeContainer)
+    iframeContainer.appendChild(this.createIframe(styles))
+
+    // Create footer
+    const footer = document.createElement('div')
+    applyStyles(footer, styles.footer)
+    const footerText = document.createElement('p')
+    footerText.style.margin = '0'
+    footerText.textContent = messages.challengeFooter
+    footer.appendChild(footerText)
+
+    if (options?.showCancelButton !== false) {
+      const cancelButton = document.createElement('button')
+      cancelButton.type = 'button'
+      cancelButton.textContent = messages.challengeCancel
+      applyStyles(cancelButton, styles.cancelButton)
+      cancelButton.addEventListener('click', () => this.cancel('cancelButton'))
+      footer.appendChild(cancelButton)
+    }
+
+    // Assemble modal
+    this.modal.appendChild(header)
+    this.modal.appendChild(iframeContainer)
+    this.modal.appendChild(footer)
+    this.root.appendChild(this.modal)
+
+    this.trapFocus(options?.closeOnEscape !== false)
+
+    return this.start('modal', stepUpUrl, accessToken, options)
+  }
+
+  /**
+   * Render the challenge iframe inside a provided element instead of an overlay
+   */
+  async showInline(
+    container: HTMLElement | string,
+    stepUpUrl: string,
+    accessToken: string,
+    options?: ChallengeModalOptions
+  ): Promise<AuthenticationResult> {
+    assertBrowser('ChallengeModal.showInline')
+    const target = typeof container === 'string' ? document.getElementById(container) : container
+    if (!target) {
+      throw new ThreeDSError(`Container #${container} not found`, { code: 'CHALLENGE_CONTAINER_NOT_FOUND' })
+    }
+
+    this.close()
+    this.logger.debug('Showing inline challenge')
+
+    const styles = this.resolveStyles(options)
+
+    this.root = document.createElement('div')
+    this.root.id = 'threeds-inline-challenge'
+    this.root.dir = this.locale.dir
+    this.root.appendChild(this.createIframe(styles))
+    target.appendChild(this.root)
+
+    return this.start('inline', stepUpUrl, accessToken, options)
+  }
+
+  /**
+   * Make the background inert, move focus into the dialog and keep it there
+   */
+  private trapFocus(closeOnEscape: boolean): void {
+    if (!this.root || !this.modal) return
+
+    const modal = this.modal
+    const active = document.activeElement
+    this.previousFocus = active instanceof HTMLElement ? active : null
+
+    Array.from(document.body.children).forEach((element) => {
+      if (element === this.root || !(element instanceof HTMLElement) || element.hasAttribute('inert')) return
+      element.setAttribute('inert', '')
+      element.setAttribute('aria-hidden', 'true')
+      this.inertElements.push(element)
+    })
+
+    const getFocusable = () =>
+      Array.from(modal.querySelectorAll<HTMLElement>('button, iframe, [href], [tabindex]:not([tabindex="-1"])'))
+
+    this.keydownListener = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && closeOnEscape) {
+        event.preventDefault()
+        this.cancel('escapeKey')
+        return
+      }
+
+      if (event.key !== 'Tab') return
+
+      const focusable = getFocusable()
+      if (focusable.length === 0) {
+        event.preventDefault()
+        modal.focus()
+        return
+      }
+
+      const first = focusable[0]
+      const last = focusable[focusable.length - 1]
+      if (event.shiftKey && (document.activeElement === first || document.activeElement === modal)) {
+        event.preventDefault()
+        last.focus()
+      } else if (!event.shiftKey && document.activeElement === last) {
+        event.preventDefault()
+        first.focus()
+      }
+    }
+
+    // Tabbing out of the cross-origin iframe never reaches the keydown
+    // handler, so pull focus back whenever it lands outside the dialog
+    this.focusListener = (event: FocusEvent) => {
+      if (event.target instanceof Node && !modal.contains(event.target)) {
+        const focusable = getFocusable()
+        ;(focusable[0] || modal).focus()
+      }
+    }
+
+    document.addEventListener('keydown', this.keydownListener, true)
+    document.addEventListener('focusin', this.focusListener, true)
+    modal.focus()
+  }
+
+  /**
+   * Undo trapFocus and return focus to the element that opened the dialog
+   */
+  private releaseFocus(): void {
+    if (this.keydownListener) {
+      document.removeEventListener('keydown', this.keydownListener, true)
+      this.keydownListener = null
+    }
+
+    if (this.focusListener) {
+      document.removeEventListener('focusin', this.focusListener, true)
+      this.focusListener = null
+    }
+
+    this.inertElements.forEach((element) => {
+      element.removeAttribute('inert')
+      element.removeAttribute('aria-hidden')
+    })
+    this.inertElements = []
+
+    if (this.previousFocus?.isConnected) {
+      this.previousFocus.focus()
+    }
+    this.previousFocus = null
+  }
+
+  /**
+   * Merge default, window size and custom styles
+   */
+  private resolveStyles(options?: ChallengeModalOptions): ModalStyles {
+    const styles = mergeStyles(getDefaultStyles(resolveTheme(this.theme)), this.customStyles)
+    // Window size goes last so the iframe always matches the size sent to the ACS
+    return options?.windowSize ? mergeStyles(styles, getWindowSizeStyles(options.windowSize)) : styles
+  }
+
+  /**
+   * Create the step-up iframe
+   */
+  private createIframe(styles: ModalStyles): HTMLIFrameElement {
+    this.iframe = document.createElement('iframe')
+    this.iframe.id = 'step_up_iframe'
+    this.iframe.name = 'stepUpIframe'
+    this.iframe.title = this.locale.messages.challengeFrameTitle
+    applyStyles(this.iframe, styles.iframe)
+    return this.iframe
+  }
+
+  /**
+   * Submit the step-up form into the mounted iframe and wait for the
+   * completion message or the timeout
+   */
+  private start(
+    mode: ChallengeMode,
+    stepUpUrl: string,
+    accessToken: string,
+    options?: ChallengeModalOptions
   ): Promise<AuthenticationResult> {
     return new Promise((resolve, reject) => {
       this.currentReject = reject
-      console.log('🔐 Showing challenge modal...')
+
+      const details: ChallengeEventDetails = { mode, transactionId: options?.transactionId }
+      this.eventDetails = details
+      this.events.emit('challenge:shown', details)
 
       const timeout = options?.timeout || 10 * 60 * 1000 // 10 minutes
-      const styles = { ...getDefaultStyles(), ...this.customStyles }
-
-      // Create overlay
-      this.overlay = document.createElement('div')
-      this.overlay.id = 'threeds-modal-overlay'
-      applyStyles(this.overlay, styles.overlay)
-      document.body.appendChild(this.overlay)
-
-      // Create modal container
-      this.modal = document.createElement('div')
-      this.modal.id = 'threeds-modal'
-      applyStyles(this.modal, styles.modal)
-
-      // Create header
-      const header = document.createElement('div')
-      applyStyles(header, styles.header)
-      header.innerHTML = `
-        <h2 style="margin: 0; font-size: 18px; font-weight: 600;">🔒 Card Authentication</h2>
-        <p style="margin: 8px 0 0 0; font-size: 13px; opacity: 0.9;">Please complete verification with your bank</p>
-      `
-
-      // Create iframe container
-      const iframeContainer = document.createElement('div')
-      applyStyles(iframeContainer, styles.iframeContainer)
-
-      // Create iframe
-      this.iframe = document.createElement('iframe')
-      this.iframe.id = 'step_up_iframe'
-      this.iframe.name = 'stepUpIframe'
-      applyStyles(this.iframe, styles.iframe)
-
-      iframeContainer.appendChild(this.iframe)
-
-      // Create footer
-      const footer = document.createElement('div')
-      applyStyles(footer, styles.footer)
-      footer.innerHTML = '<p style="margin: 0;">Secured by 3D Secure 2.0</p>'
-
-      // Assemble modal
-      this.modal.appendChild(header)
-      this.modal.appendChild(iframeContainer)
-      this.modal.appendChild(footer)
-      this.overlay.appendChild(this.modal)
+      const security = mergeSecurityOptions(this.securityOptions, options)
+      const msgTypes = [options?.completionMessageType || '3DS_COMPLETE', '3DS_CHALLENGE_COMPLETE']
+      // The completion message is posted by the return URL page, which is
+      // normally served from this origin
+      const guard = new MessageGuard(
+        'challenge',
+        resolveTrustedOrigins([window.location.origin], security),
+        () => this.iframe?.contentWindow || null,
+        (data) => looksLikeChallengeMessage(data, msgTypes),
+        security.onRejectedMessage,
+        this.logger
+      )
 
       // Create form
       this.form = document.createElement('form')
@@ -84,45 +321,52 @@ export class ChallengeModal {
       document.body.appendChild(this.form)
 
       // Listen for postMessage
+      const txnId = options?.transactionId
+
       this.messageListener = (event: MessageEvent) => {
-        console.log('📩 Received postMessage:', event.data)
-
-        const msgType = options?.completionMessageType || '3DS_COMPLETE'
-        const txnId = options?.transactionId
-
-        if (event.data && (event.data.type === msgType || event.data.type === '3DS_CHALLENGE_COMPLETE')) {
-          // If transactionId is provided, ensure it matches
-          if (txnId && event.data.transactionId && event.data.transactionId !== txnId) {
-            console.log(`[ChallengeModal] Ignoring message for different transaction: ${event.data.transactionId}`)
-            return
-          }
-
-          console.log('✅ 3DS Challenge complete')
-
-          window.removeEventListener('message', this.messageListener!)
-          this.currentReject = null
-          this.cleanup()
-          resolve({
-            success: event.data.success !== false,
-            result: event.data.result,
-            authTransactionId: event.data.authTransactionId || event.data.transactionId
-          })
+        if (!guard.verify(event)) return
+
+        this.logger.debug('Received challenge message', { origin: event.origin, data: event.data })
+
+        const message = parseChallengeMessage(event.data, msgTypes)
+        if (!message) {
+          guard.reject(event, 'invalidPayload')
+          return
+        }
+
+        // If transactionId is provided, ensure it matches
+        if (txnId && message.transactionId && message.transactionId !== txnId) {
+          this.logger.info('Ignoring completion message for another transaction', { transactionId: message.transactionId })
+          return
         }
+
+        this.currentReject = null
+        this.cleanup()
+        const result: AuthenticationResult = {
+          success: message.success !== false,
+          result: message.result,
+          authTransactionId: message.authTransactionId || message.transactionId
+        }
+        this.logger.info('Challenge complete', { success: result.success })
+        this.events.emit('challenge:completed', { ...details, result })
+        resolve(result)
       }
 
       window.addEventListener('message', this.messageListener)
+      this.iframe?.addEventListener('load', () => this.events.emit('challenge:loaded', details))
 
       // Submit form
-      console.log('📤 Submitting challenge form')
+      this.logger.debug('Submitting challenge form')
+      this.events.emit('challenge:submitted', details)
       this.form.submit()
 
       // Timeout
-      const timeoutId = setTimeout(() => {
-        console.error('❌ Challenge timeout')
-        window.removeEventListener('message', this.messageListener!)
+      this.timeoutId = setTimeout(() => {
+        this.logger.warn('Challenge timed out', { timeout })
         this.currentReject = null
         this.cleanup()
-        reject(new Error('Challenge timeout'))
+        this.events.emit('challenge:timedOut', details)
+        reject(new ChallengeTimeoutError())
       }, timeout)
     })
   }
@@ -131,11 +375,23 @@ export class ChallengeModal {
    * Close challenge modal manually
    */
   close(): void {
+    this.cancel('closed')
+  }
+
+  /**
+   * Reject the pending challenge with a ChallengeCancelledError and tear down
+   */
+  private cancel(reason: ChallengeCancelReason): void {
+    const details = this.eventDetails
     if (this.currentReject) {
-      this.currentReject(new Error('Challenge modal closed manually'))
+      const message = reason === 'closed' ? 'Challenge modal closed manually' : 'Challenge cancelled by user'
+      this.currentReject(new ChallengeCancelledError(message, reason))
       this.currentReject = null
     }
     this.cleanup()
+    if (details) {
+      this.events.emit('challenge:cancelled', { ...details, reason })
+    }
   }
 
   /**
@@ -145,19 +401,40 @@ export class ChallengeModal {
     this.customStyles = styles
   }
 
+  /**
+   * Set the theme used for the next challenge
+   */
+  setTheme(theme: ThemeInput): void {
+    this.theme = theme
+  }
+
+  /**
+   * Set the locale used for the next challenge
+   */
+  setLocale(options: LocaleOptions): void {
+    this.locale = resolveLocale(options)
+  }
+
   /**
    * Clean up modal
    */
   cleanup(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId)
+      this.timeoutId = null
+    }
+
     if (this.messageListener) {
       window.removeEventListener('message', this.messageListener)
       this.messageListener = null
     }
 
-    if (this.overlay?.parentNode) {
-      this.overlay.parentNode.removeChild(this.overlay)
+    this.releaseFocus()
+
+    if (this.root?.parentNode) {
+      this.root.parentNode.removeChild(this.root)
     }
-    this.overlay = null
+    this.root = null
     this.modal = null
     this.iframe = null
 
@@ -165,12 +442,14 @@ export class ChallengeModal {
       this.form.parentNode.removeChild(this.form)
     }
     this.form = null
+    this.eventDetails = null
   }
 
   /**
-   * Destroy modal
+   * Destroy modal. A challenge still open is rejected with a
+   * ChallengeCancelledError so callers awaiting it are released.
    */
   destroy(): void {
-    this.cleanup()
+    this.cancel('closed')
   }
 }
@@ -0,0 +1,112 @@
+import { ThreeDSError } from '../errors'
+import { normalizeOrigin } from '../security/message-guard'
+import { assertBrowser, decodeBase64Url } from '../utils'
+import type {
+  ChallengeCompletionPayload,
+  ChallengeReturnFields,
+  ChallengeReturnOptions,
+  ChallengeReturnTarget
+} from '../types'
+
+const DEFAULT_MESSAGE_TYPE = '3DS_COMPLETE'
+
+function readFields(fields: ChallengeReturnFields | URLSearchParams): ChallengeReturnFields {
+  if (typeof URLSearchParams !== 'undefined' && fields instanceof URLSearchParams) {
+    return {
+      TransactionId: fields.get('TransactionId') || undefined,
+      Response: fields.get('Response') || undefined,
+      MD: fields.get('MD') || undefined
+    }
+  }
+  return fields as ChallengeReturnFields
+}
+
+function decodeCRes(response: string): Record<string, unknown> | undefined {
+  try {
+    const cres = JSON.parse(decodeBase64Url(response.trim()))
+    return cres && typeof cres === 'object' ? cres : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Build the completion message ChallengeModal expects from the fields posted
+ * to the return URL. `success` is true only for a readable CRes with
+ * `transStatus` Y. Without one it is false and `result.statusUnavailable`
+ * is set, so the merchant server must confirm with the validation call.
+ */
+export function buildChallengeCompletionMessage(
+  fields: ChallengeReturnFields | URLSearchParams,
+  messageType: string = DEFAULT_MESSAGE_TYPE
+): ChallengeCompletionPayload {
+  const { TransactionId, Response, MD } = readFields(fields)
+  if (!TransactionId && !Response) {
+    throw new ThreeDSError('Challenge return received neither TransactionId nor Response', {
+      code: 'CHALLENGE_RETURN_FAILED'
+    })
+  }
+
+  const cres = Response ? decodeCRes(Response) : undefined
+  const status = typeof cres?.transStatus === 'string' ? cres.transStatus : undefined
+
+  return {
+    type: messageType,
+    transactionId: TransactionId,
+    success: status === 'Y',
+    result: { status, cres, md: MD, ...(status === undefined && { statusUnavailable: true }) },
+    authTransactionId: TransactionId
+  }
+}
+
+function resolveTargetWindow(target: ChallengeReturnTarget): Window | null {
+  const parent = window.parent !== window ? window.parent : null
+  const opener: Window | null = window.opener && !window.opener.closed ? window.opener : null
+
+  switch (target) {
+    case 'parent':
+      return parent
+    case 'opener':
+      return opener
+    default:
+      return parent || opener
+  }
+}
+
+/**
+ * Run on the challenge return URL page. Posts the completion message to the
+ * frame or popup that opened the challenge, only to `targetOrigin`.
+ *
+ * @example
+ * // The server redirected the ACS POST here with the fields in the query string
+ * handleChallengeReturn({
+ *   targetOrigin: 'https://shop.example',
+ *   fields: new URLSearchParams(window.location.search)
+ * })
+ */
+export function handleChallengeReturn(options: ChallengeReturnOptions): ChallengeCompletionPayload {
+  assertBrowser('handleChallengeReturn')
+
+  const targetOrigin = options.targetOrigin === '*' ? null : normalizeOrigin(options.targetOrigin)
+  if (!targetOrigin) {
+    throw new ThreeDSError(`Challenge return needs an explicit target origin, got "${options.targetOrigin}"`, {
+      code: 'CHALLENGE_RETURN_FAILED'
+    })
+  }
+
+  const targetWindow = resolveTargetWindow(options.target || 'auto')
+  if (!targetWindow) {
+    throw new ThreeDSError('Challenge return page has no parent frame or opener to notify', {
+      code: 'CHALLENGE_RETURN_FAILED'
+    })
+  }
+
+  const message = buildChallengeCompletionMessage(options.fields, options.messageType)
+  targetWindow.postMessage(message, targetOrigin)
+
+  if (targetWindow === window.opener && options.closePopup !== false) {
+    window.close()
+  }
+
+  return message
+}
@@ -0,0 +1,92 @@
+import type { ChallengeWindowSize, ModalStyles } from '../types'
+import { assertBrowser } from '../utils'
+
+/**
+ * Iframe dimensions the ACS renders for each fixed window size
+ */
+export const CHALLENGE_WINDOW_DIMENSIONS: Record<Exclude<ChallengeWindowSize, '05'>, { width: number; height: number }> = {
+  '01': { width: 250, height: 400 },
+  '02': { width: 390, height: 400 },
+  '03': { width: 500, height: 600 },
+  '04': { width: 600, height: 400 }
+}
+
+// Space taken by the modal header, footer and iframe padding
+const MODAL_CHROME = { width: 40, height: 180 }
+
+// Preferred sizes, largest first
+const SIZE_PREFERENCE: Array<Exclude<ChallengeWindowSize, '05'>> = ['03', '04', '02', '01']
+
+/**
+ * Pick the largest challenge window size whose modal fits the viewport,
+ * falling back to full screen (05) on small screens. Without a viewport
+ * this measures the window, so it must then run in the browser.
+ */
+export function selectChallengeWindowSize(viewport?: { width: number; height: number }): ChallengeWindowSize {
+  if (!viewport) {
+    assertBrowser('selectChallengeWindowSize')
+    viewport = { width: window.innerWidth, height: window.innerHeight }
+  }
+
+  const fits = SIZE_PREFERENCE.find((size) => {
+    const { width, height } = CHALLENGE_WINDOW_DIMENSIONS[size]
+    return width + MODAL_CHROME.width <= viewport.width && height + MODAL_CHROME.height <= viewport.height
+  })
+
+  return fits || '05'
+}
+
+/**
+ * Style overrides that size the modal and iframe to a window size
+ */
+export function getWindowSizeStyles(size: ChallengeWindowSize): Partial<ModalStyles> {
+  // Full screen: the ACS page takes the viewport minus a compact footer,
+  // which keeps the Cancel button on devices without an Escape key
+  if (size === '05') {
+    return {
+      header: {
+        display: 'none'
+      },
+      footer: {
+        padding: '8px',
+        flexShrink: '0'
+      },
+      modal: {
+        width: '100%',
+        height: '100%',
+        maxWidth: 'none',
+        maxHeight: 'none',
+        borderRadius: '0'
+      },
+      iframeContainer: {
+        padding: '0',
+        display: 'flex',
+        minHeight: '0'
+      },
+      iframe: {
+        width: '100%',
+        height: 'auto',
+        flex: '1',
+        border: 'none',
+        borderRadius: '0'
+      }
+    }
+  }
+
+  const { width, height } = CHALLENGE_WINDOW_DIMENSIONS[size]
+  return {
+    modal: {
+      width: 'auto',
+      maxWidth: 'none',
+      maxHeight: 'none'
+    },
+    iframeContainer: {
+      overflow: 'visible'
+    },
+    iframe: {
+      width: `${width}px`,
+      height: `${height}px`,
+      boxSizing: 'content-box'
+    }
+  }
+}
@@ -1,9 +1,30 @@
-import type { DeviceDataOptions } from '../types'
+import type { DeviceDataOptions, DeviceDataResult, MessageSecurityOptions, ThreeDSEventMap } from '../types'
+import { DeviceDataError } from '../errors'
+import { assertBrowser } from '../utils'
+import { EventEmitter } from '../utils/event-emitter'
+import { Logger } from '../utils/logger'
+import {
+  MessageGuard,
+  getCardinalOrigins,
+  looksLikeDeviceDataMessage,
+  mergeSecurityOptions,
+  parseDeviceDataMessage,
+  resolveTrustedOrigins
+} from '../security/message-guard'
 
 export class DeviceDataCollector {
   private iframe: HTMLIFrameElement | null = null
   private form: HTMLFormElement | null = null
   private messageListener: ((event: MessageEvent) => void) | null = null
+  private securityOptions: MessageSecurityOptions
+  private events: EventEmitter<ThreeDSEventMap>
+  private logger: Logger
+
+  constructor(securityOptions?: MessageSecurityOptions, events?: EventEmitter<ThreeDSEventMap>, logger?: Logger) {
+    this.securityOptions = securityOptions || {}
+    this.events = events || new EventEmitter(logger)
+    this.logger = (logger || new Logger()).forSource('DeviceDataCollector')
+  }
 
   /**
    * Collect device data using Cardinal Commerce iframe
@@ -12,11 +33,23 @@ export class DeviceDataCollector {
     deviceDataCollectionUrl: string,
     accessToken: string,
     options?: DeviceDataOptions
-  ): Promise<{ success: boolean; timeout?: boolean }> {
-    return new Promise((resolve) => {
-      console.log('📱 Starting device data collection...')
+  ): Promise<DeviceDataResult> {
+    assertBrowser('DeviceDataCollector.collect')
 
+    return new Promise((resolve, reject) => {
       const timeout = options?.timeout || 10000
+      this.logger.debug('Starting device data collection', { timeout })
+
+      const startedAt = Date.now()
+      const security = mergeSecurityOptions(this.securityOptions, options)
+      const guard = new MessageGuard(
+        'deviceData',
+        resolveTrustedOrigins(getCardinalOrigins(security.environment), security),
+        () => this.iframe?.contentWindow || null,
+        looksLikeDeviceDataMessage,
+        security.onRejectedMessage,
+        this.logger
+      )
 
       // Create hidden iframe
       this.iframe = document.createElement('iframe')
@@ -44,26 +77,53 @@ export class DeviceDataCollector {
 
       // Listen for postMessage from Cardinal
       this.messageListener = (event: MessageEvent) => {
-        if (
-          event.origin.includes('cardinalcommerce.com') ||
-          event.origin.includes('centinelapi')
-        ) {
-          console.log('✅ Device data collection complete:', event.data)
-          this.cleanup()
-          resolve({ success: true })
+        if (!guard.verify(event)) return
+
+        const message = parseDeviceDataMessage(event.data)
+        if (!message) {
+          guard.reject(event, 'invalidPayload')
+          return
         }
+
+        clearTimeout(timeoutId)
+        this.cleanup()
+        const result: DeviceDataResult = {
+          success: message.Status !== false,
+          timedOut: false,
+          sessionId: message.SessionId,
+          status: message.Status,
+          messageType: message.MessageType,
+          raw: event.data,
+          durationMs: Date.now() - startedAt
+        }
+        this.logger.info('Device data collection complete', { message, durationMs: result.durationMs })
+        this.events.emit('deviceData:completed', result)
+        resolve(result)
       }
       window.addEventListener('message', this.messageListener)
 
       // Timeout
       const timeoutId = setTimeout(() => {
-        console.log('⏱️ Device data collection timeout - proceeding')
+        this.logger.warn('Device data collection timed out, proceeding without it', { timeout })
         this.cleanup()
-        resolve({ success: true, timeout: true })
+        // Still resolves: enrollment can go ahead without device data
+        const result: DeviceDataResult = { success: false, timedOut: true, durationMs: Date.now() - startedAt }
+        this.events.emit('deviceData:timedOut', result)
+        resolve(result)
       }, timeout)
 
       // Submit form
-      this.form.submit()
+      try {
+        this.events.emit('deviceData:started', { url: deviceDataCollectionUrl })
+        this.form.submit()
+      } catch (err: any) {
+        clearTimeout(timeoutId)
+        this.cleanup()
+        const error = new DeviceDataError(`Device data collection failed: ${err.message}`, { cause: err })
+        this.logger.error('Device data collection failed', { error })
+        this.events.emit('deviceData:failed', { error })
+        reject(error)
+      }
     })
   }
 
@@ -0,0 +1,90 @@
+import type { LocaleMessages } from '../types'
+import { en } from '../i18n/locales/en'
+
+export type ExpiryErrorCode = 'REQUIRED' | 'INVALID_FORMAT' | 'EXPIRED'
+
+export interface ExpiryValidation {
+  valid: boolean
+  empty: boolean
+  month?: string
+  year?: string
+  error?: {
+    code: ExpiryErrorCode
+    message: string
+  }
+}
+
+export type ExpiryMessages = Pick<LocaleMessages, 'expiryRequired' | 'expiryInvalid' | 'expiryExpired'>
+
+const MESSAGE_KEYS: Record<ExpiryErrorCode, keyof ExpiryMessages> = {
+  REQUIRED: 'expiryRequired',
+  INVALID_FORMAT: 'expiryInvalid',
+  EXPIRED: 'expiryExpired'
+}
+
+/**
+ * Expand a 2-digit year into the current century
+ */
+export function normalizeExpiryYear(year: string): string {
+  if (year.length === 2) {
+    const currentYear = new Date().getFullYear()
+    const currentCentury = Math.floor(currentYear / 100) * 100
+    return (currentCentury + parseInt(year, 10)).toString()
+  }
+  return year
+}
+
+/**
+ * Split a `MM/YY` value into month and year parts
+ */
+export function splitExpiryDate(value: string): { month: string; year: string } {
+  const [month = '', year = ''] = value.split('/').map((part) => part.trim())
+  return { month, year }
+}
+
+/**
+ * Format raw keystrokes as `MM/YY`
+ */
+export function formatExpiryInput(value: string): string {
+  const digits = value.replace(/\D/g, '').slice(0, 4)
+  if (digits.length === 1 && parseInt(digits, 10) > 1) {
+    return `0${digits}/`
+  }
+  return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits
+}
+
+/**
+ * Validate month and year, rejecting malformed and past dates.
+ * A card is valid through the last day of its expiry month.
+ */
+export function validateExpiry(
+  month: string,
+  year: string,
+  messages: ExpiryMessages = en,
+  now: Date = new Date()
+): ExpiryValidation {
+  const fail = (code: ExpiryErrorCode, empty = false): ExpiryValidation => ({
+    valid: false,
+    empty,
+    error: { code, message: messages[MESSAGE_KEYS[code]] }
+  })
+
+  if (!month && !year) return fail('REQUIRED', true)
+  if (!/^\d{1,2}$/.test(month) || !/^(\d{2}|\d{4})$/.test(year)) return fail('INVALID_FORMAT')
+
+  const monthNumber = parseInt(month, 10)
+  if (monthNumber < 1 || monthNumber > 12) return fail('INVALID_FORMAT')
+
+  const fullYear = normalizeExpiryYear(year)
+  const yearNumber = parseInt(fullYear, 10)
+  if (yearNumber < now.getFullYear() || (yearNumber === now.getFullYear() && monthNumber < now.getMonth() + 1)) {
+    return fail('EXPIRED')
+  }
+
+  return {
+    valid: true,
+    empty: false,
+    month: month.padStart(2, '0'),
+    year: fullYear
+  }
+}
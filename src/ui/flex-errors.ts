@@ -0,0 +1,53 @@
+import type { LocaleMessages } from '../types'
+
+export type FlexErrorMessages = Pick<
+  LocaleMessages,
+  | 'tokenizeFailed'
+  | 'tokenizeTimeout'
+  | 'tokenizeNetworkError'
+  | 'cardDetailsInvalid'
+  | 'fieldsNotLoaded'
+  | 'captureContextExpired'
+  | 'cardNumberInvalid'
+  | 'securityCodeInvalid'
+  | 'expiryInvalid'
+  | 'fieldInvalid'
+>
+
+// Flex Microform `reason` codes from createToken and field errors
+const REASON_KEYS: Record<string, keyof FlexErrorMessages> = {
+  CAPTURE_CONTEXT_EXPIRED: 'captureContextExpired',
+  CREATE_TOKEN_TIMEOUT: 'tokenizeTimeout',
+  CREATE_TOKEN_XHR_ERROR: 'tokenizeNetworkError',
+  CREATE_TOKEN_NO_FIELDS_LOADED: 'fieldsNotLoaded',
+  CREATE_TOKEN_NO_FIELDS: 'fieldsNotLoaded',
+  CREATE_TOKEN_VALIDATION_FIELDS: 'cardDetailsInvalid',
+  CREATE_TOKEN_VALIDATION_PARAMS: 'cardDetailsInvalid',
+  CREATE_TOKEN_VALIDATION_SERVERSIDE: 'cardDetailsInvalid'
+}
+
+// Flex `details[].location` values
+const LOCATION_KEYS: Record<string, keyof FlexErrorMessages> = {
+  number: 'cardNumberInvalid',
+  securityCode: 'securityCodeInvalid',
+  expirationMonth: 'expiryInvalid',
+  expirationYear: 'expiryInvalid'
+}
+
+/**
+ * Localized message for a Flex error reason, or the generic tokenization
+ * message for reasons we don't know
+ */
+export function getFlexErrorMessage(error: { reason?: string } | null | undefined, messages: FlexErrorMessages): string {
+  const key = error?.reason ? REASON_KEYS[error.reason] : undefined
+  return messages[key || 'tokenizeFailed']
+}
+
+/**
+ * Localized message for a Flex field error location, or the generic
+ * field message for locations we don't know
+ */
+export function getFlexFieldErrorMessage(location: string | undefined, messages: FlexErrorMessages): string {
+  const key = location ? LOCATION_KEYS[location] : undefined
+  return messages[key || 'fieldInvalid']
+}
@@ -0,0 +1,135 @@
+import { BrowserRequiredError, FlexInitError } from '../errors'
+import { parseCaptureContext } from '../utils/capture-context'
+import { isBrowser } from '../utils'
+
+export interface FlexLibrarySource {
+  src: string
+  integrity?: string
+}
+
+export interface FlexLoadOptions {
+  timeout?: number
+}
+
+// In-flight and completed loads, keyed by script URL
+const loads: Map<string, Promise<void>> = new Map()
+
+// Hosts CyberSource serves the Flex Microform library from. The capture
+// context is not signature-checked in the browser, so its clientLibrary
+// claim is only trusted on these hosts.
+const FLEX_LIBRARY_HOSTS = ['flex.cybersource.com', 'testflex.cybersource.com']
+
+/**
+ * Reject a library source that is not served over https from a CyberSource
+ * Flex host, or that has no integrity hash
+ */
+function assertTrustedSource(source: FlexLibrarySource): asserts source is Required<FlexLibrarySource> {
+  let url: URL | null = null
+  try {
+    url = new URL(source.src)
+  } catch {
+    // reported below
+  }
+
+  if (!url || url.protocol !== 'https:' || !FLEX_LIBRARY_HOSTS.includes(url.hostname)) {
+    throw new FlexInitError(`Refusing to load Flex Microform from untrusted URL ${source.src}`, {
+      code: 'FLEX_SCRIPT_UNTRUSTED'
+    })
+  }
+
+  if (!source.integrity) {
+    throw new FlexInitError('Refusing to load Flex Microform without an integrity hash', {
+      code: 'FLEX_SCRIPT_UNTRUSTED'
+    })
+  }
+}
+
+/**
+ * Whether a Flex Microform global is already available
+ */
+export function isFlexLoaded(): boolean {
+  return isBrowser() && !!((window as any).FLEX || (window as any).Flex)
+}
+
+/**
+ * Resolve the client library URL and integrity hash from a capture context
+ */
+export function getFlexLibrarySource(captureContext: string): FlexLibrarySource | null {
+  try {
+    const claims = parseCaptureContext(captureContext)
+    return claims.clientLibrary
+      ? { src: claims.clientLibrary, integrity: claims.clientLibraryIntegrity }
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Inject the Flex Microform script with Subresource Integrity. Only
+ * https URLs on CyberSource Flex hosts with an integrity hash are loaded.
+ * Concurrent calls for the same URL share a single script tag.
+ */
+export function loadFlexLibrary(source: FlexLibrarySource, options?: FlexLoadOptions): Promise<void> {
+  if (!isBrowser()) return Promise.reject(new BrowserRequiredError('loadFlexLibrary'))
+  if (isFlexLoaded()) return Promise.resolve()
+
+  try {
+    assertTrustedSource(source)
+  } catch (err) {
+    return Promise.reject(err)
+  }
+
+  const existing = loads.get(source.src)
+  if (existing) return existing
+
+  const timeout = options?.timeout || 15000
+
+  const load = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script')
+    script.src = source.src
+    script.async = true
+    script.crossOrigin = 'anonymous'
+    script.integrity = source.integrity
+
+    const fail = (error: FlexInitError) => {
+      clearTimeout(timeoutId)
+      script.remove()
+      // Allow a later call to retry
+      loads.delete(source.src)
+      reject(error)
+    }
+
+    const timeoutId = setTimeout(() => {
+      fail(new FlexInitError(`Timed out loading Flex Microform from ${source.src}`, {
+        code: 'FLEX_SCRIPT_TIMEOUT',
+        retryable: true
+      }))
+    }, timeout)
+
+    script.onload = () => {
+      if (!isFlexLoaded()) {
+        fail(new FlexInitError('Flex Microform script loaded but did not define FLEX', {
+          code: 'FLEX_SDK_NOT_LOADED'
+        }))
+        return
+      }
+      clearTimeout(timeoutId)
+      resolve()
+    }
+
+    // Network failures and integrity mismatches both surface here
+    script.onerror = (event) => {
+      fail(new FlexInitError(`Failed to load Flex Microform from ${source.src}`, {
+        code: 'FLEX_SCRIPT_LOAD_FAILED',
+        retryable: true,
+        cause: event
+      }))
+    }
+
+    document.head.appendChild(script)
+  })
+
+  loads.set(source.src, load)
+  return load
+}
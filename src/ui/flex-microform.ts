@@ -1,40 +1,133 @@
-import type { FlexMicroformOptions, FlexMicroformInstance, FlexTokenizeResult, FlexFieldStyles } from '../types'
+import type {
+  FlexMicroformOptions,
+  FlexMicroformInstance,
+  FlexTokenizeResult,
+  FlexFieldStyles,
+  CaptureContextClaims,
+  ThreeDSEventMap
+} from '../types'
+import { FlexInitError, TokenizationError } from '../errors'
+import { assertBrowser, decodeJwtPayload, escapeHtml, generateId } from '../utils'
+import { EventEmitter } from '../utils/event-emitter'
+import { Logger } from '../utils/logger'
+import { isCaptureContextExpired, parseCaptureContext } from '../utils/capture-context'
+import { isFlexLoaded, loadFlexLibrary } from './flex-loader'
+import { getFieldStyles, resolveTheme } from './theme'
+import { resolveLocale } from '../i18n'
+import type { ResolvedLocale } from '../i18n'
+import { formatExpiryInput, normalizeExpiryYear, splitExpiryDate, validateExpiry } from './expiry-field'
+import type { ExpiryValidation } from './expiry-field'
+import { getFlexErrorMessage, getFlexFieldErrorMessage } from './flex-errors'
 
 export class FlexMicroform {
   private microform: any = null
   private fields: Map<string, any> = new Map()
-  private containerId: string
+  private containerRef: string | HTMLElement
   private captureContext: string
   private options: FlexMicroformOptions
+  private instanceId: string = generateId()
+  private container: HTMLElement | null = null
+  private styleElement: HTMLStyleElement | null = null
+  private claims: CaptureContextClaims | null = null
+  private expiryTimers: ReturnType<typeof setTimeout>[] = []
+  private refreshing: Promise<void> | null = null
+  private locale: ResolvedLocale
+  private destroyed = false
+  private events: EventEmitter<ThreeDSEventMap>
+  private key: string
+  private logger: Logger
 
+  /**
+   * @param key - Identifies this instance in lifecycle events (defaults to
+   *   the container id)
+   */
   constructor(
-    containerId: string,
+    container: string | HTMLElement,
     captureContext: string,
-    options?: FlexMicroformOptions
+    options?: FlexMicroformOptions,
+    events?: EventEmitter<ThreeDSEventMap>,
+    key?: string,
+    logger?: Logger
   ) {
-    this.containerId = containerId
+    this.containerRef = container
     this.captureContext = captureContext
     this.options = options || {}
+    this.events = events || new EventEmitter(logger)
+    this.key = key || (typeof container === 'string' ? container : container.id || this.instanceId)
+    this.logger = (logger || new Logger()).forSource('FlexMicroform')
+    this.claims = this.readClaims(captureContext)
+    this.locale = resolveLocale(this.options)
+  }
+
+  /**
+   * Claims decoded from the current capture context, or null when it is
+   * not a JWT (e.g. a Flex v1 key id)
+   */
+  getCaptureContextClaims(): CaptureContextClaims | null {
+    return this.claims
   }
 
   /**
    * Initialize Flex Microform
    */
   async initialize(): Promise<FlexMicroformInstance> {
+    assertBrowser('FlexMicroform.initialize')
+    this.destroyed = false
+    return this.start()
+  }
+
+  /**
+   * Mount and report the outcome, without reviving a destroyed instance
+   */
+  private async start(): Promise<FlexMicroformInstance> {
+    try {
+      const instance = await this.mount()
+      this.events.emit('flex:ready', { key: this.key })
+      return instance
+    } catch (error: any) {
+      // Destroyed while loading, e.g. on unmount: not a failure worth reporting
+      if (!this.destroyed) {
+        this.events.emit('flex:failed', { key: this.key, error })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Load the library if needed, create the fields and wait for Flex
+   */
+  private async mount(): Promise<FlexMicroformInstance> {
+
+    if (this.options.autoLoadLibrary !== false && !isFlexLoaded() && this.claims?.clientLibrary) {
+      await loadFlexLibrary({
+        src: this.claims.clientLibrary,
+        integrity: this.claims.clientLibraryIntegrity
+      })
+    }
+
     return new Promise((resolve, reject) => {
+      // destroy() may run while the library is loading, e.g. on unmount
+      if (this.destroyed) {
+        reject(this.destroyedError())
+        return
+      }
+
       const FLEX_SDK = (window as any).FLEX || (window as any).Flex
 
       if (!FLEX_SDK) {
-        const error = new Error(
-          'Flex SDK not loaded. Ensure you have included the Cybersource Flex Microform script tag in your HTML.'
+        const error = new FlexInitError(
+          'Flex SDK not loaded. Ensure you have included the Cybersource Flex Microform script tag in your HTML.',
+          { code: 'FLEX_SDK_NOT_LOADED', retryable: true }
         )
         reject(error)
         return
       }
 
-      const container = document.getElementById(this.containerId)
+      const container = typeof this.containerRef === 'string'
+        ? document.getElementById(this.containerRef)
+        : this.containerRef
       if (!container) {
-        reject(new Error(`Container #${this.containerId} not found`))
+        reject(new FlexInitError(`Container #${this.containerRef} not found`, { code: 'FLEX_CONTAINER_NOT_FOUND' }))
         return
       }
 
@@ -42,16 +135,22 @@ export class FlexMicroform {
       this.createFieldContainers(container)
 
       const setupFields = (instance: any) => {
+        if (this.destroyed) {
+          reject(this.destroyedError())
+          return
+        }
+
         this.microform = instance
 
         // Only create card number and CVV fields (Flex v2 'card' microform limitation)
-        this.createField('cardNumber', 'number', 'flex-card-number')
-        this.createField('securityCode', 'securityCode', 'flex-security-code')
+        this.createField('cardNumber', 'number', 'card-number')
+        this.createField('securityCode', 'securityCode', 'security-code')
 
-        console.log('✅ Flex Microform initialized')
+        this.logger.debug('Flex Microform initialized', { key: this.key })
+        this.watchCaptureContext()
 
         resolve({
-          tokenize: (expiryMonth: string, expiryYear: string) =>
+          tokenize: (expiryMonth?: string, expiryYear?: string) =>
             this.tokenize(expiryMonth, expiryYear),
           on: (event: string, callback: Function) => this.on(event, callback),
           destroy: () => this.destroy()
@@ -60,17 +159,17 @@ export class FlexMicroform {
 
       try {
         if (typeof FLEX_SDK === 'function') {
-          console.log('Detected Flex v2 (Constructor style)')
+          this.logger.debug('Detected Flex v2 (constructor style)')
           const flexInstance = new FLEX_SDK(this.captureContext)
 
           if (typeof flexInstance.microform === 'function') {
             const microformInstance = flexInstance.microform('card')
             setupFields(microformInstance)
           } else {
-            reject(new Error('Flex v2 instance missing microform() method'))
+            reject(new FlexInitError('Flex v2 instance missing microform() method', { code: 'FLEX_UNSUPPORTED_VERSION' }))
           }
         } else if (typeof FLEX_SDK.microform === 'function') {
-          console.log('Detected Flex v1 (Method style)')
+          this.logger.debug('Detected Flex v1 (method style)')
           const setupOptions = {
             keyId: this.captureContext,
             encryptionType: 'RsaOaep256',
@@ -79,16 +178,20 @@ export class FlexMicroform {
           }
           FLEX_SDK.microform(setupOptions, (setupError: any, setupInstance: any) => {
             if (setupError) {
-              reject(new Error(`Flex setup failed: ${setupError.message}`))
+              reject(new FlexInitError(`Flex setup failed: ${setupError.message}`, {
+                code: 'FLEX_SETUP_FAILED',
+                retryable: true,
+                cause: setupError
+              }))
               return
             }
             setupFields(setupInstance)
           })
         } else {
-          reject(new Error('Flex SDK loaded but unrecognized API version'))
+          reject(new FlexInitError('Flex SDK loaded but unrecognized API version', { code: 'FLEX_UNSUPPORTED_VERSION' }))
         }
       } catch (err: any) {
-        reject(new Error(`Flex initialization failed: ${err.message}`))
+        reject(new FlexInitError(`Flex initialization failed: ${err.message}`, { code: 'FLEX_SETUP_FAILED', cause: err }))
       }
     })
   }
@@ -98,32 +201,8 @@ export class FlexMicroform {
    */
   private createFieldContainers(container: HTMLElement): void {
     const layout = this.options.layout || 'stacked'
-    const customStyles = this.options.customStyles || {}
-
-    // Default styles
-    const defaultStyles = {
-      labelFontSize: '14px',
-      labelFontWeight: '500',
-      labelColor: '#374151',
-      labelMarginBottom: '6px',
-      borderColor: '#d1d5db',
-      borderRadius: '6px',
-      inputPadding: '11px 12px',
-      backgroundColor: '#ffffff',
-      inputHeight: '42px',
-      fontSize: '16px',
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
-      textColor: '#1a1a1a',
-      focusColor: '#1a1a1a',
-      focusBorderColor: '#4f46e5',
-      focusShadow: '0 0 0 3px rgba(79, 70, 229, 0.1)',
-      errorColor: '#dc2626',
-      errorFontSize: '12px',
-      errorMarginTop: '4px'
-    }
-
-    // Merge with custom styles
-    const styles = { ...defaultStyles, ...customStyles }
+    const styles = this.resolveFieldStyles()
+    const messages = this.locale.messages
 
     const labelStyles = `
       display: block;
@@ -152,84 +231,227 @@ export class FlexMicroform {
       color: ${styles.errorColor};
     `.trim()
 
+    const expiryInputStyles = `
+      width: 100%;
+      border: none;
+      outline: none;
+      padding: 0;
+      background: transparent;
+      font-size: ${styles.fontSize};
+      font-family: ${styles.fontFamily.replace(/"/g, "'")};
+      color: ${styles.textColor};
+    `.trim()
+
+    const expiryField = this.renderExpiryField(labelStyles, inputContainerStyles, errorStyles, expiryInputStyles)
+
     if (layout === 'inline') {
-      // Inline layout: Card number and CVV side by side
+      // Inline layout: Card number, expiry and CVV side by side
       container.innerHTML = `
-        <div style="display: flex; gap: 12px; flex-wrap: wrap;">
+        <div dir="${this.locale.dir}" style="display: flex; gap: 12px; flex-wrap: wrap;">
           <div style="flex: 3; min-width: 200px;">
-            <label for="flex-card-number" style="${labelStyles}">${this.options.labels?.cardNumber || 'Card Number'}</label>
-            <div id="flex-card-number" class="flex-field-container" style="${inputContainerStyles}"></div>
-            <div id="error-card-number" style="${errorStyles}"></div>
+            <label for="${escapeHtml(this.elementId('card-number'))}" style="${escapeHtml(labelStyles)}">${escapeHtml(this.options.labels?.cardNumber || messages.cardNumberLabel)}</label>
+            <div id="${escapeHtml(this.elementId('card-number'))}" class="flex-field-container" style="${escapeHtml(inputContainerStyles)}"></div>
+            <div id="${escapeHtml(this.elementId('error-card-number'))}" style="${escapeHtml(errorStyles)}"></div>
           </div>
+          ${expiryField ? `<div style="flex: 1.5; min-width: 120px;">${expiryField}</div>` : ''}
           <div style="flex: 1; min-width: 100px;">
-            <label for="flex-security-code" style="${labelStyles}">${this.options.labels?.securityCode || 'CVV'}</label>
-            <div id="flex-security-code" class="flex-field-container" style="${inputContainerStyles}"></div>
-            <div id="error-security-code" style="${errorStyles}"></div>
+            <label for="${escapeHtml(this.elementId('security-code'))}" style="${escapeHtml(labelStyles)}">${escapeHtml(this.options.labels?.securityCode || messages.securityCodeShortLabel)}</label>
+            <div id="${escapeHtml(this.elementId('security-code'))}" class="flex-field-container" style="${escapeHtml(inputContainerStyles)}"></div>
+            <div id="${escapeHtml(this.elementId('error-security-code'))}" style="${escapeHtml(errorStyles)}"></div>
           </div>
         </div>
       `
     } else {
-      // Stacked layout: Card number on top, CVV below
+      // Stacked layout: Card number on top, expiry and CVV below
       container.innerHTML = `
-        <div style="display: flex; flex-direction: column; gap: 16px;">
+        <div dir="${this.locale.dir}" style="display: flex; flex-direction: column; gap: 16px;">
           <div>
-            <label for="flex-card-number" style="${labelStyles}">${this.options.labels?.cardNumber || 'Card Number'}</label>
-            <div id="flex-card-number" class="flex-field-container" style="${inputContainerStyles}"></div>
-            <div id="error-card-number" style="${errorStyles}"></div>
+            <label for="${escapeHtml(this.elementId('card-number'))}" style="${escapeHtml(labelStyles)}">${escapeHtml(this.options.labels?.cardNumber || messages.cardNumberLabel)}</label>
+            <div id="${escapeHtml(this.elementId('card-number'))}" class="flex-field-container" style="${escapeHtml(inputContainerStyles)}"></div>
+            <div id="${escapeHtml(this.elementId('error-card-number'))}" style="${escapeHtml(errorStyles)}"></div>
           </div>
+          ${expiryField ? `<div>${expiryField}</div>` : ''}
           <div>
-            <label for="flex-security-code" style="${labelStyles}">${this.options.labels?.securityCode || 'Security Code'}</label>
-            <div id="flex-security-code" class="flex-field-container" style="${inputContainerStyles}"></div>
-            <div id="error-security-code" style="${errorStyles}"></div>
+            <label for="${escapeHtml(this.elementId('security-code'))}" style="${escapeHtml(labelStyles)}">${escapeHtml(this.options.labels?.securityCode || messages.securityCodeLabel)}</label>
+            <div id="${escapeHtml(this.elementId('security-code'))}" class="flex-field-container" style="${escapeHtml(inputContainerStyles)}"></div>
+            <div id="${escapeHtml(this.elementId('error-security-code'))}" style="${escapeHtml(errorStyles)}"></div>
           </div>
         </div>
       `
     }
 
-    // Add focus styles dynamically
-    const styleElement = document.createElement('style')
-    styleElement.textContent = `
-      .flex-field-container:focus-within {
+    // Add focus styles scoped to this instance
+    container.setAttribute('data-flex-instance', this.instanceId)
+    this.container = container
+    this.styleElement?.remove()
+    this.styleElement = document.createElement('style')
+    this.styleElement.textContent = `
+      [data-flex-instance="${this.instanceId}"] .flex-field-container:focus-within {
         border-color: ${styles.focusBorderColor} !important;
         box-shadow: ${styles.focusShadow};
       }
     `
-    document.head.appendChild(styleElement)
+    // Document styles do not reach into a shadow root, so keep the rule beside the fields
+    const root = container.getRootNode()
+    const styleParent = root instanceof ShadowRoot ? root : document.head
+    styleParent.appendChild(this.styleElement)
+
+    this.bindExpiryField()
+  }
+
+  /**
+   * Theme field styles with customStyles applied on top
+   */
+  private resolveFieldStyles() {
+    return { ...getFieldStyles(resolveTheme(this.options.theme)), ...this.options.customStyles }
+  }
+
+  /**
+   * Element id scoped to this instance, so several microforms can share a page
+   */
+  private elementId(name: string): string {
+    return `${this.instanceId}-${name}`
+  }
+
+  /**
+   * Look up one of this instance's elements within its container, which
+   * also works when the container is inside a shadow root
+   */
+  private findElement<T extends HTMLElement = HTMLElement>(name: string): T | null {
+    return this.container?.querySelector<T>(`[id="${this.elementId(name)}"]`) || null
+  }
+
+  /**
+   * Markup for the SDK-managed expiry field, if enabled
+   */
+  private renderExpiryField(
+    labelStyles: string,
+    inputContainerStyles: string,
+    errorStyles: string,
+    inputStyles: string
+  ): string {
+    const mode = this.options.expiryField || 'none'
+    const labels = this.options.labels || {}
+    const placeholders = this.options.placeholders || {}
+    const messages = this.locale.messages
+
+    if (mode === 'single') {
+      return `
+        <label for="${escapeHtml(this.elementId('expiry-date'))}" style="${escapeHtml(labelStyles)}">${escapeHtml(labels.expiryDate || messages.expiryDateLabel)}</label>
+        <div class="flex-field-container" style="${escapeHtml(inputContainerStyles)}">
+          <input id="${escapeHtml(this.elementId('expiry-date'))}" type="text" dir="ltr" inputmode="numeric" autocomplete="cc-exp" maxlength="5"
+            placeholder="${escapeHtml(placeholders.expiryDate || messages.expiryDatePlaceholder)}" style="${escapeHtml(inputStyles)}" />
+        </div>
+        <div id="${escapeHtml(this.elementId('error-expiry-date'))}" style="${escapeHtml(errorStyles)}"></div>
+      `
+    }
+
+    if (mode === 'separate') {
+      return `
+        <div style="display: flex; gap: 8px;">
+          <div style="flex: 1;">
+            <label for="${escapeHtml(this.elementId('expiry-month'))}" style="${escapeHtml(labelStyles)}">${escapeHtml(labels.expiryMonth || messages.expiryMonthLabel)}</label>
+            <div class="flex-field-container" style="${escapeHtml(inputContainerStyles)}">
+              <input id="${escapeHtml(this.elementId('expiry-month'))}" type="text" dir="ltr" inputmode="numeric" autocomplete="cc-exp-month" maxlength="2"
+                placeholder="${escapeHtml(placeholders.expiryMonth || messages.expiryMonthPlaceholder)}" style="${escapeHtml(inputStyles)}" />
+            </div>
+          </div>
+          <div style="flex: 1;">
+            <label for="${escapeHtml(this.elementId('expiry-year'))}" style="${escapeHtml(labelStyles)}">${escapeHtml(labels.expiryYear || messages.expiryYearLabel)}</label>
+            <div class="flex-field-container" style="${escapeHtml(inputContainerStyles)}">
+              <input id="${escapeHtml(this.elementId('expiry-year'))}" type="text" dir="ltr" inputmode="numeric" autocomplete="cc-exp-year" maxlength="4"
+                placeholder="${escapeHtml(placeholders.expiryYear || messages.expiryYearPlaceholder)}" style="${escapeHtml(inputStyles)}" />
+            </div>
+          </div>
+        </div>
+        <div id="${escapeHtml(this.elementId('error-expiry-date'))}" style="${escapeHtml(errorStyles)}"></div>
+      `
+    }
+
+    return ''
+  }
+
+  /**
+   * Attach formatting and validation to the managed expiry inputs
+   */
+  private bindExpiryField(): void {
+    const inputs = this.getExpiryInputs()
+    if (inputs.length === 0) return
+
+    const single = this.findElement<HTMLInputElement>('expiry-date')
+    if (single) {
+      single.addEventListener('input', () => {
+        single.value = formatExpiryInput(single.value)
+      })
+    }
+
+    inputs.forEach((input) => {
+      input.addEventListener('input', () => {
+        const result = this.readExpiry()
+        // Only clear errors while typing; new errors wait for blur
+        if (result.valid) this.handleFieldChange('expiryDate', result)
+      })
+      input.addEventListener('blur', () => {
+        this.handleFieldChange('expiryDate', this.readExpiry())
+      })
+    })
+  }
+
+  private getExpiryInputs(): HTMLInputElement[] {
+    return ['expiry-date', 'expiry-month', 'expiry-year']
+      .map((name) => this.findElement<HTMLInputElement>(name))
+      .filter((input): input is HTMLInputElement => !!input)
+  }
+
+  /**
+   * Read and validate the managed expiry inputs
+   */
+  private readExpiry(): ExpiryValidation {
+    const single = this.findElement<HTMLInputElement>('expiry-date')
+    if (single) {
+      const { month, year } = splitExpiryDate(single.value)
+      return validateExpiry(month, year, this.locale.messages)
+    }
+
+    const month = this.findElement<HTMLInputElement>('expiry-month')?.value.trim() || ''
+    const year = this.findElement<HTMLInputElement>('expiry-year')?.value.trim() || ''
+    return validateExpiry(month, year, this.locale.messages)
   }
 
   /**
    * Create individual field
    */
-  private createField(fieldType: string, flexFieldType: string, containerId: string): void {
+  private createField(fieldType: string, flexFieldType: string, containerName: string): void {
     try {
-      const customStyles = this.options.customStyles || {}
+      const styles = this.resolveFieldStyles()
 
       const field = this.microform.createField(flexFieldType, {
         placeholder: this.options.placeholders?.[fieldType as keyof NonNullable<FlexMicroformOptions['placeholders']>] || '',
         styles: {
           input: {
-            'font-size': customStyles.fontSize || '16px',
-            'font-family': customStyles.fontFamily || '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
-            'color': customStyles.textColor || '#1a1a1a',
+            'font-size': styles.fontSize,
+            'font-family': styles.fontFamily,
+            'color': styles.textColor,
             'line-height': '1.5'
           },
           ':focus': {
-            'color': customStyles.focusColor || '#1a1a1a'
+            'color': styles.focusColor
           },
           ':disabled': {
             'cursor': 'not-allowed',
             'opacity': '0.6'
           },
           valid: {
-            'color': customStyles.validColor || '#059669'
+            'color': styles.validColor
           },
           invalid: {
-            'color': customStyles.invalidColor || '#dc2626'
+            'color': styles.invalidColor
           }
         }
       })
 
-      field.load(`#${containerId}`)
+      // Pass the element rather than a selector so fields can mount inside a shadow root
+      field.load(this.findElement(containerName))
 
       // Add event listeners
       field.on('change', (data: any) => {
@@ -238,7 +460,7 @@ export class FlexMicroform {
 
       this.fields.set(fieldType, field)
     } catch (err: any) {
-      console.error(`Could not create field "${fieldType}":`, err)
+      this.logger.error('Could not create field', { fieldType, error: err })
       throw err
     }
   }
@@ -247,7 +469,7 @@ export class FlexMicroform {
    * Handle field changes
    */
   private handleFieldChange(fieldType: string, data: any): void {
-    const errorContainer = document.getElementById(`error-${fieldType.replace(/([A-Z])/g, '-$1').toLowerCase()}`)
+    const errorContainer = this.findElement(`error-${fieldType.replace(/([A-Z])/g, '-$1').toLowerCase()}`)
 
     if (!errorContainer) return
 
@@ -255,7 +477,7 @@ export class FlexMicroform {
       errorContainer.textContent = ''
       errorContainer.style.display = 'none'
     } else if (data.error) {
-      errorContainer.textContent = data.error.message || 'Invalid'
+      errorContainer.textContent = this.getErrorMessage(fieldType, data.error)
       errorContainer.style.display = 'block'
     }
 
@@ -265,32 +487,124 @@ export class FlexMicroform {
     }
   }
 
+  /**
+   * Localized error text for a field. Flex messages are English only, so
+   * Flex locations and reasons map to the locale pack instead; the managed
+   * expiry field's messages are already localized.
+   */
+  private getErrorMessage(fieldType: string, error: any): string {
+    const messages = this.locale.messages
+    if (error?.location) return getFlexFieldErrorMessage(error.location, messages)
+    if (fieldType === 'cardNumber') return getFlexFieldErrorMessage('number', messages)
+    if (fieldType === 'securityCode') return getFlexFieldErrorMessage('securityCode', messages)
+    if (error?.reason) return getFlexErrorMessage(error, messages)
+    return error?.message || messages.fieldInvalid
+  }
+
+  /**
+   * Show field errors from a Flex createToken validation failure.
+   * Flex reports them as details: [{ location: 'number' | 'securityCode', message }]
+   */
+  private showTokenizationErrors(error: any): void {
+    if (!Array.isArray(error?.details)) return
+
+    error.details.forEach((detail: any) => {
+      const fieldType = detail?.location === 'number' ? 'cardNumber' : detail?.location
+      if (this.fields.has(fieldType)) {
+        this.handleFieldChange(fieldType, { valid: false, error: detail })
+      }
+    })
+  }
+
   /**
    * Tokenize card data
-   * Requires expiry month and year as parameters
+   * Expiry month and year are required unless the managed expiry field is enabled
    */
-  async tokenize(expiryMonth: string, expiryYear: string): Promise<FlexTokenizeResult> {
-    return new Promise((resolve, reject) => {
-      if (!this.microform) {
-        reject(new Error('Microform not initialized'))
-        return
+  async tokenize(expiryMonth?: string, expiryYear?: string): Promise<FlexTokenizeResult> {
+    this.events.emit('tokenize:started', { key: this.key })
+
+    try {
+      const result = await this.createToken(expiryMonth, expiryYear)
+      this.events.emit('tokenize:succeeded', { key: this.key, cardType: result.cardType, maskedPan: result.maskedPan })
+      return result
+    } catch (error: any) {
+      this.events.emit('tokenize:failed', { key: this.key, error })
+      throw error
+    }
+  }
+
+  private async createToken(expiryMonth?: string, expiryYear?: string): Promise<FlexTokenizeResult> {
+    // Read the expiry first: a refresh re-renders the managed expiry field
+    const { month, year } = this.resolveExpiry(expiryMonth, expiryYear)
+    const canRefresh = !!this.options.refreshCaptureContext
+
+    // Timers can be throttled in background tabs, so check again here
+    if (this.claims && isCaptureContextExpired(this.claims)) {
+      if (!canRefresh) {
+        throw new TokenizationError('Capture context has expired', { code: 'CAPTURE_CONTEXT_EXPIRED' })
       }
+      return this.retryWithNewContext(month, year)
+    }
 
-      // Validate expiry
-      if (!expiryMonth || !expiryYear) {
-        reject(new Error('Expiry month and year are required'))
-        return
+    try {
+      return await this.requestToken(month, year)
+    } catch (err: any) {
+      if (canRefresh && err?.code === 'CAPTURE_CONTEXT_EXPIRED') {
+        return this.retryWithNewContext(month, year)
       }
+      throw err
+    }
+  }
+
+  /**
+   * Refresh the capture context and tokenize once more. Fails only when the
+   * refresh or the retry does.
+   */
+  private async retryWithNewContext(month: string, year: string): Promise<FlexTokenizeResult> {
+    this.logger.info('Capture context expired, refreshing before tokenizing', { key: this.key })
+    await this.refreshCaptureContext()
+
+    try {
+      return await this.requestToken(month, year)
+    } catch (err) {
+      throw new TokenizationError(this.locale.messages.captureContextExpired, {
+        code: 'CAPTURE_CONTEXT_EXPIRED',
+        cause: err
+      })
+    }
+  }
+
+  /**
+   * Expiry from the arguments, or from the managed expiry field when none
+   * are passed. Month is zero-padded and the year has four digits.
+   */
+  private resolveExpiry(expiryMonth?: string, expiryYear?: string): { month: string; year: string } {
+    // Fall back to the managed expiry field when no values are passed
+    if (!expiryMonth && !expiryYear && this.getExpiryInputs().length > 0) {
+      const expiry = this.readExpiry()
+      this.handleFieldChange('expiryDate', expiry)
+      if (!expiry.valid) {
+        throw new TokenizationError(expiry.error?.message || 'Invalid expiry date', {
+          code: expiry.empty ? 'EXPIRY_REQUIRED' : 'INVALID_EXPIRY',
+          retryable: false
+        })
+      }
+      expiryMonth = expiry.month
+      expiryYear = expiry.year
+    }
+
+    if (!expiryMonth || !expiryYear) {
+      throw new TokenizationError('Expiry month and year are required', { code: 'EXPIRY_REQUIRED', retryable: false })
+    }
 
-      // Ensure 2-digit month
-      const month = expiryMonth.padStart(2, '0')
+    return { month: expiryMonth.padStart(2, '0'), year: normalizeExpiryYear(expiryYear) }
+  }
 
-      // Handle 2-digit or 4-digit year
-      let year = expiryYear
-      if (year.length === 2) {
-        const currentYear = new Date().getFullYear()
-        const currentCentury = Math.floor(currentYear / 100) * 100
-        year = (currentCentury + parseInt(year)).toString()
+  private requestToken(month: string, year: string): Promise<FlexTokenizeResult> {
+    return new Promise((resolve, reject) => {
+      if (!this.microform) {
+        reject(new FlexInitError('Microform not initialized', { code: 'FLEX_NOT_INITIALIZED' }))
+        return
       }
 
       const options = {
@@ -300,8 +614,12 @@ export class FlexMicroform {
 
       this.microform.createToken(options, (error: any, token: string) => {
         if (error) {
-          console.error('Tokenization error:', error)
-          reject(new Error(`Tokenization failed: ${error.message || JSON.stringify(error)}`))
+          this.logger.warn('Tokenization failed', { error })
+          this.showTokenizationErrors(error)
+          reject(new TokenizationError(getFlexErrorMessage(error, this.locale.messages), {
+            ...(error.reason === 'CAPTURE_CONTEXT_EXPIRED' && { code: 'CAPTURE_CONTEXT_EXPIRED' }),
+            cause: error
+          }))
           return
         }
 
@@ -338,25 +656,12 @@ export class FlexMicroform {
    */
   private decodeToken(token: string): { maskedPan: string; cardType: string } {
     try {
-      // JWT structure: header.payload.signature
-      const parts = token.split('.')
-      if (parts.length !== 3) {
-        console.warn('Invalid JWT structure')
+      const decoded = decodeJwtPayload(token)
+      if (!decoded) {
+        this.logger.warn('Transient token is not a valid JWT')
         return { maskedPan: '************', cardType: 'unknown' }
       }
 
-      // Decode payload (base64url)
-      const payload = parts[1]
-
-      // Base64url to Base64: replace - with + and _ with /
-      const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
-
-      // Add padding if needed
-      const padded = base64 + '=='.substring(0, (4 - base64.length % 4) % 4)
-
-      // Decode
-      const decoded = JSON.parse(atob(padded))
-
       // Extract card data from Flex payload structure
       const content = decoded?.content
       const paymentInfo = content?.paymentInformation
@@ -392,11 +697,88 @@ export class FlexMicroform {
         cardType
       }
     } catch (err) {
-      console.error('Could not decode token:', err)
+      this.logger.warn('Could not decode transient token', { error: err })
       return { maskedPan: '************', cardType: 'unknown' }
     }
   }
 
+  /**
+   * Fetch a new capture context through the refreshCaptureContext option
+   * and re-initialise the fields with it. Concurrent calls share one refresh.
+   */
+  async refreshCaptureContext(): Promise<void> {
+    const refresh = this.options.refreshCaptureContext
+    if (!refresh) {
+      throw new FlexInitError('No refreshCaptureContext callback configured', { code: 'CAPTURE_CONTEXT_EXPIRED' })
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const captureContext = await refresh()
+        // Destroyed while the new context was being fetched: stay destroyed
+        if (this.destroyed) return
+
+        this.captureContext = captureContext
+        this.claims = this.readClaims(captureContext)
+
+        this.fields.forEach((field) => field.remove())
+        this.fields.clear()
+        await this.start()
+      })().finally(() => {
+        this.refreshing = null
+      })
+    }
+
+    return this.refreshing
+  }
+
+  private destroyedError(): FlexInitError {
+    return new FlexInitError('Microform was destroyed before initialization completed', {
+      code: 'FLEX_NOT_INITIALIZED'
+    })
+  }
+
+  private readClaims(captureContext: string): CaptureContextClaims | null {
+    try {
+      return parseCaptureContext(captureContext)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Schedule the expiry warning and, when configured, the automatic refresh
+   */
+  private watchCaptureContext(): void {
+    this.clearExpiryTimers()
+
+    const expiresAt = this.claims?.expiresAt
+    if (!expiresAt) return
+
+    const remainingMs = expiresAt.getTime() - Date.now()
+    const warningMs = this.options.captureContextWarningMs ?? 60 * 1000
+
+    if (this.options.onCaptureContextExpiring) {
+      const onExpiring = this.options.onCaptureContextExpiring
+      this.expiryTimers.push(setTimeout(() => {
+        onExpiring({ expiresAt, remainingMs: Math.max(0, expiresAt.getTime() - Date.now()) })
+      }, Math.max(0, remainingMs - warningMs)))
+    }
+
+    if (this.options.refreshCaptureContext) {
+      this.expiryTimers.push(setTimeout(() => {
+        this.refreshCaptureContext().catch((err) => {
+          this.logger.error('Could not refresh capture context', { error: err })
+        })
+      }, Math.max(0, remainingMs)))
+    }
+  }
+
+  private clearExpiryTimers(): void {
+    this.expiryTimers.forEach((timer) => clearTimeout(timer))
+    this.expiryTimers = []
+  }
+
   /**
    * Add event listener
    */
@@ -410,8 +792,15 @@ export class FlexMicroform {
    * Destroy microform
    */
   destroy(): void {
+    this.destroyed = true
+    this.clearExpiryTimers()
     this.fields.forEach((field) => field.remove())
     this.fields.clear()
     this.microform = null
+
+    this.styleElement?.remove()
+    this.styleElement = null
+    this.container?.removeAttribute('data-flex-instance')
+    this.container = null
   }
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
-import type { ModalStyles } from '../types'
+import type { ModalStyles, ThreeDSTheme } from '../types'
+import { LIGHT_THEME } from './theme'
+
+export function getDefaultStyles(theme: ThreeDSTheme = LIGHT_THEME): ModalStyles {
+  const { colors, typography, radius, spacing } = theme
 
-export function getDefaultStyles(): ModalStyles {
   return {
     overlay: {
       position: 'fixed',
@@ -8,15 +11,17 @@ export function getDefaultStyles(): ModalStyles {
       left: '0',
       width: '100%',
       height: '100%',
-      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      backgroundColor: colors.overlay,
       display: 'flex',
       alignItems: 'center',
       justifyContent: 'center',
       zIndex: '10000'
     },
     modal: {
-      backgroundColor: 'white',
-      borderRadius: '12px',
+      backgroundColor: colors.background,
+      color: colors.text,
+      fontFamily: typography.fontFamily,
+      borderRadius: radius.modal,
       boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
       width: '450px',
       maxWidth: '90%',
@@ -26,33 +31,55 @@ export function getDefaultStyles(): ModalStyles {
       flexDirection: 'column'
     },
     header: {
-      background: '#4f46e5',
-      color: 'white',
-      padding: '20px',
+      background: colors.primary,
+      color: colors.onPrimary,
+      padding: spacing.modalPadding,
       textAlign: 'center'
     },
     iframeContainer: {
-      padding: '20px',
+      padding: spacing.modalPadding,
       flex: '1',
       overflow: 'auto'
     },
     iframe: {
       width: '100%',
       height: '500px',
-      border: '1px solid #e5e7eb',
-      borderRadius: '8px'
+      border: `1px solid ${colors.divider}`,
+      borderRadius: radius.frame
     },
     footer: {
-      padding: '16px 20px',
+      padding: `16px ${spacing.modalPadding}`,
       textAlign: 'center',
-      fontSize: '12px',
-      color: '#6b7280',
-      backgroundColor: '#f9fafb',
-      borderTop: '1px solid #e5e7eb'
+      fontSize: typography.smallFontSize,
+      color: colors.mutedText,
+      backgroundColor: colors.surface,
+      borderTop: `1px solid ${colors.divider}`
+    },
+    cancelButton: {
+      marginTop: '8px',
+      padding: '6px 16px',
+      fontSize: '13px',
+      fontFamily: 'inherit',
+      color: colors.label,
+      backgroundColor: colors.fieldBackground,
+      border: `1px solid ${colors.border}`,
+      borderRadius: radius.field,
+      cursor: 'pointer'
     }
   }
 }
 
+/**
+ * Merge style overrides into a base style set element by element
+ */
+export function mergeStyles(base: ModalStyles, overrides: Partial<ModalStyles>): ModalStyles {
+  const merged = { ...base }
+  ;(Object.keys(overrides) as Array<keyof ModalStyles>).forEach((key) => {
+    merged[key] = { ...base[key], ...overrides[key] }
+  })
+  return merged
+}
+
 export function applyStyles(element: HTMLElement, styles: Record<string, string>): void {
   Object.entries(styles).forEach(([key, value]) => {
     ;(element.style as any)[key] = value
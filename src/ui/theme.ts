@@ -0,0 +1,113 @@
+import type { ThemeInput, ThreeDSTheme } from '../types'
+
+export const LIGHT_THEME: ThreeDSTheme = {
+  colors: {
+    primary: '#4f46e5',
+    onPrimary: 'white',
+    background: 'white',
+    fieldBackground: '#ffffff',
+    surface: '#f9fafb',
+    text: '#1a1a1a',
+    label: '#374151',
+    mutedText: '#6b7280',
+    border: '#d1d5db',
+    divider: '#e5e7eb',
+    focusRing: 'rgba(79, 70, 229, 0.1)',
+    valid: '#059669',
+    invalid: '#dc2626',
+    overlay: 'rgba(0, 0, 0, 0.5)'
+  },
+  typography: {
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+    fontSize: '16px',
+    labelFontSize: '14px',
+    labelFontWeight: '500',
+    smallFontSize: '12px'
+  },
+  radius: {
+    field: '6px',
+    modal: '12px',
+    frame: '8px'
+  },
+  spacing: {
+    fieldPadding: '11px 12px',
+    fieldHeight: '42px',
+    labelGap: '6px',
+    errorGap: '4px',
+    modalPadding: '20px'
+  }
+}
+
+export const DARK_THEME: ThreeDSTheme = {
+  ...LIGHT_THEME,
+  colors: {
+    primary: '#6366f1',
+    onPrimary: '#ffffff',
+    background: '#1f2937',
+    fieldBackground: '#111827',
+    surface: '#111827',
+    text: '#f9fafb',
+    label: '#d1d5db',
+    mutedText: '#9ca3af',
+    border: '#4b5563',
+    divider: '#374151',
+    focusRing: 'rgba(99, 102, 241, 0.25)',
+    valid: '#34d399',
+    invalid: '#f87171',
+    overlay: 'rgba(0, 0, 0, 0.7)'
+  }
+}
+
+/**
+ * Whether the user prefers a dark colour scheme
+ */
+export function prefersDarkMode(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof window.matchMedia === 'function' &&
+    window.matchMedia('(prefers-color-scheme: dark)').matches
+}
+
+/**
+ * Turn a theme name or override object into a complete theme.
+ * 'auto' follows prefers-color-scheme at the time of rendering.
+ */
+export function resolveTheme(input: ThemeInput = 'light'): ThreeDSTheme {
+  const overrides = typeof input === 'string' ? { mode: input } : input
+  const mode = overrides.mode || 'light'
+  const base = mode === 'dark' || (mode === 'auto' && prefersDarkMode()) ? DARK_THEME : LIGHT_THEME
+
+  return {
+    colors: { ...base.colors, ...overrides.colors },
+    typography: { ...base.typography, ...overrides.typography },
+    radius: { ...base.radius, ...overrides.radius },
+    spacing: { ...base.spacing, ...overrides.spacing }
+  }
+}
+
+/**
+ * Flatten a theme into the FlexMicroformOptions.customStyles shape
+ */
+export function getFieldStyles(theme: ThreeDSTheme) {
+  return {
+    labelFontSize: theme.typography.labelFontSize,
+    labelFontWeight: theme.typography.labelFontWeight,
+    labelColor: theme.colors.label,
+    labelMarginBottom: theme.spacing.labelGap,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radius.field,
+    inputPadding: theme.spacing.fieldPadding,
+    backgroundColor: theme.colors.fieldBackground,
+    inputHeight: theme.spacing.fieldHeight,
+    fontSize: theme.typography.fontSize,
+    fontFamily: theme.typography.fontFamily,
+    textColor: theme.colors.text,
+    focusColor: theme.colors.text,
+    focusBorderColor: theme.colors.primary,
+    focusShadow: `0 0 0 3px ${theme.colors.focusRing}`,
+    validColor: theme.colors.valid,
+    invalidColor: theme.colors.invalid,
+    errorColor: theme.colors.invalid,
+    errorFontSize: theme.typography.smallFontSize,
+    errorMarginTop: theme.spacing.errorGap
+  }
+}
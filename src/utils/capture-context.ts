@@ -0,0 +1,50 @@
+import type { CaptureContextClaims } from '../types'
+import { ThreeDSError } from '../errors'
+import { decodeJwtPayload } from './index'
+
+const toDate = (seconds: unknown): Date | null =>
+  typeof seconds === 'number' ? new Date(seconds * 1000) : null
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+/**
+ * Decode a Flex capture context JWT into typed claims.
+ * The signature is not verified; Flex does that when the microform loads.
+ *
+ * Payload structure:
+ * - exp, iat
+ * - ctx: [{ data: { clientLibrary, clientLibraryIntegrity, targetOrigins, allowedCardNetworks, allowedPaymentTypes } }]
+ */
+export function parseCaptureContext(captureContext: string): CaptureContextClaims {
+  let payload: Record<string, any> | null
+  try {
+    payload = decodeJwtPayload(captureContext)
+  } catch (err) {
+    throw new ThreeDSError('Capture context is not a valid JWT', { code: 'INVALID_CAPTURE_CONTEXT', cause: err })
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new ThreeDSError('Capture context is not a valid JWT', { code: 'INVALID_CAPTURE_CONTEXT' })
+  }
+
+  const data = Array.isArray(payload.ctx) ? payload.ctx[0]?.data || {} : {}
+
+  return {
+    expiresAt: toDate(payload.exp),
+    issuedAt: toDate(payload.iat),
+    clientLibrary: typeof data.clientLibrary === 'string' ? data.clientLibrary : undefined,
+    clientLibraryIntegrity: typeof data.clientLibraryIntegrity === 'string' ? data.clientLibraryIntegrity : undefined,
+    targetOrigins: toStringArray(data.targetOrigins),
+    allowedCardNetworks: toStringArray(data.allowedCardNetworks),
+    allowedPaymentTypes: toStringArray(data.allowedPaymentTypes),
+    raw: payload
+  }
+}
+
+/**
+ * Whether the capture context has expired (or will within `skewMs`)
+ */
+export function isCaptureContextExpired(claims: CaptureContextClaims, skewMs: number = 0): boolean {
+  return !!claims.expiresAt && claims.expiresAt.getTime() - skewMs <= Date.now()
+}
@@ -0,0 +1,111 @@
+import type {
+  DeviceInformation,
+  DeviceInformationIssue,
+  DeviceInformationValidation
+} from '../types'
+
+/**
+ * Colour depths EMV 3DS 2.2 allows for browserColorDepth
+ */
+export const EMV_COLOR_DEPTHS = [1, 4, 8, 15, 16, 24, 32, 48]
+
+const WINDOW_SIZES = ['01', '02', '03', '04', '05']
+
+/**
+ * Round a reported colour depth down to the nearest value EMV 3DS allows,
+ * e.g. 30-bit displays report 30 and are sent as 24
+ */
+export function normalizeColorDepth(depth: number): string {
+  if (!Number.isFinite(depth) || depth < 1) return '24'
+  const allowed = EMV_COLOR_DEPTHS.filter((value) => value <= depth)
+  return String(allowed[allowed.length - 1])
+}
+
+/**
+ * Format Date#getTimezoneOffset (UTC minus local time, in minutes) as the
+ * signed whole number of minutes EMV 3DS expects: at most 5 characters,
+ * between -840 and 720
+ */
+export function normalizeTimeZoneOffset(offset: number): string {
+  if (!Number.isFinite(offset)) return '0'
+  return String(Math.min(720, Math.max(-840, Math.round(offset))))
+}
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/
+const IPV6 = /^[0-9a-fA-F:.]{2,45}$/
+
+/**
+ * Whether a value is an IPv4 or IPv6 address
+ */
+export function isIpAddress(value: string): boolean {
+  return IPV4.test(value) || (value.includes(':') && IPV6.test(value))
+}
+
+type Rule = (value: unknown) => string | null
+
+const text = (max: number): Rule => (value) =>
+  typeof value === 'string' && value.length >= 1 && value.length <= max
+    ? null
+    : `must be 1-${max} characters`
+
+const digits = (max: number): Rule => (value) =>
+  typeof value === 'string' && new RegExp(`^\\d{1,${max}}$`).test(value)
+    ? null
+    : `must be 1-${max} digits`
+
+const oneOf = (allowed: string[]): Rule => (value) =>
+  typeof value === 'string' && allowed.includes(value)
+    ? null
+    : `must be one of ${allowed.join(', ')}`
+
+// Field rules from the EMV 3DS 2.2 browser data elements
+const RULES: Array<{ field: keyof DeviceInformation; required: boolean; rule: Rule }> = [
+  {
+    field: 'ipAddress',
+    required: false,
+    rule: (value) => (typeof value === 'string' && isIpAddress(value) ? null : 'must be an IPv4 or IPv6 address')
+  },
+  { field: 'httpAcceptContent', required: true, rule: text(2048) },
+  { field: 'httpAcceptBrowserValue', required: true, rule: text(2048) },
+  { field: 'httpBrowserLanguage', required: true, rule: text(35) },
+  { field: 'httpBrowserJavaEnabled', required: true, rule: oneOf(['Y', 'N']) },
+  { field: 'httpBrowserJavaScriptEnabled', required: true, rule: oneOf(['Y', 'N']) },
+  { field: 'httpBrowserColorDepth', required: true, rule: oneOf(EMV_COLOR_DEPTHS.map(String)) },
+  { field: 'httpBrowserScreenHeight', required: true, rule: digits(6) },
+  { field: 'httpBrowserScreenWidth', required: true, rule: digits(6) },
+  {
+    field: 'httpBrowserTimeDifference',
+    required: true,
+    rule: (value) => {
+      const offset = typeof value === 'string' && /^-?\d{1,4}$/.test(value) ? parseInt(value, 10) : NaN
+      return offset >= -840 && offset <= 720 ? null : 'must be whole minutes between -840 and 720'
+    }
+  },
+  { field: 'userAgentBrowserValue', required: true, rule: text(2048) },
+  { field: 'challengeWindowSize', required: false, rule: oneOf(WINDOW_SIZES) }
+]
+
+/**
+ * Report DeviceInformation fields that are missing or outside the EMV 3DS
+ * 2.2 formats. Runs anywhere, so your backend can check what it receives.
+ */
+export function validateDeviceInformation(info: Partial<DeviceInformation>): DeviceInformationValidation {
+  const issues: DeviceInformationIssue[] = []
+
+  RULES.forEach(({ field, required, rule }) => {
+    const value = info[field]
+    if (value === undefined || value === null || value === '') {
+      if (required) {
+        issues.push({ field, reason: 'missing', value, message: `${field} is required` })
+      }
+      return
+    }
+
+    const problem = rule(value)
+    if (problem) {
+      issues.push({ field, reason: 'invalid', value, message: `${field} ${problem}` })
+    }
+  })
+
+  return { valid: issues.length === 0, issues }
+}
@@ -0,0 +1,47 @@
+import { Logger } from './logger'
+
+/**
+ * Minimal typed event emitter. Listener errors are logged and never
+ * reach the code that emitted the event.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {}
+  private logger: Logger
+
+  constructor(logger?: Logger) {
+    this.logger = (logger || new Logger()).forSource('EventEmitter')
+  }
+
+  /**
+   * Add a listener. Returns a function that removes it.
+   */
+  on<K extends keyof Events>(type: K, listener: (payload: Events[K]) => void): () => void {
+    const listeners = this.listeners[type] || (this.listeners[type] = new Set())
+    listeners.add(listener)
+    return () => this.off(type, listener)
+  }
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off<K extends keyof Events>(type: K, listener: (payload: Events[K]) => void): void {
+    this.listeners[type]?.delete(listener)
+  }
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.listeners[type]?.forEach((listener) => {
+      try {
+        listener(payload)
+      } catch (err) {
+        this.logger.error(`"${String(type)}" listener failed`, { error: err })
+      }
+    })
+  }
+
+  /**
+   * Remove every listener
+   */
+  clear(): void {
+    this.listeners = {}
+  }
+}
@@ -1,3 +1,5 @@
+import { BrowserRequiredError } from '../errors'
+
 /**
  * Check if running in browser environment
  */
@@ -5,6 +7,24 @@ export function isBrowser(): boolean {
   return typeof window !== 'undefined' && typeof document !== 'undefined'
 }
 
+/**
+ * Throw BrowserRequiredError when called outside the browser. Browser-only
+ * methods call this before touching the DOM so that importing and
+ * constructing the SDK stays safe on the server.
+ */
+export function assertBrowser(method: string): void {
+  if (!isBrowser()) {
+    throw new BrowserRequiredError(method)
+  }
+}
+
+/**
+ * Escape a value for HTML text or a quoted attribute
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
 /**
  * Generate unique ID
  */
@@ -18,3 +38,30 @@ export function generateId(): string {
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
 }
+
+/**
+ * Decode the payload of a JWT without verifying its signature.
+ * Returns null when the token is not a three-part JWT.
+ */
+export function decodeJwtPayload<T = any>(token: string): T | null {
+  // JWT structure: header.payload.signature
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return null
+  }
+
+  return JSON.parse(decodeBase64Url(parts[1]))
+}
+
+/**
+ * Decode base64url (or plain base64), with or without padding
+ */
+export function decodeBase64Url(value: string): string {
+  // Base64url to Base64: replace - with + and _ with /
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+
+  // Add padding if needed
+  const padded = base64 + '=='.substring(0, (4 - base64.length % 4) % 4)
+
+  return atob(padded)
+}
@@ -0,0 +1,136 @@
+import type { LogHandler, LogLevel, LoggerOptions, ThreeDSEnvironment } from '../types'
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity
+}
+
+// Values under these keys are dropped entirely: tokens, card data and the
+// ids that tie a log line to a payment
+const SENSITIVE_KEY = /token|jwt|secret|password|cvv|cvn|securitycode|cardnumber|^number$|pan$|^md$|cavv|xid|ucaf|transactionid|transid|sessionid|referenceid/i
+const JWT_PATTERN = /\beyJ[\w-]*\.[\w-]+\.[\w-]*/g
+const PAN_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g
+const MAX_DEPTH = 6
+
+function redactString(value: string): string {
+  const trimmed = value.trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.stringify(redact(JSON.parse(trimmed)))
+    } catch {
+      // not JSON, fall through
+    }
+  }
+
+  return value
+    .replace(JWT_PATTERN, '[JWT]')
+    .replace(PAN_PATTERN, (pan) => `[PAN ****${pan.replace(/\D/g, '').slice(-4)}]`)
+}
+
+/**
+ * Copy of a value that is safe to log: JWTs, card numbers and values under
+ * token, card or transaction id keys are masked. Errors become
+ * `{ name, message, code }`.
+ */
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') return redactString(value)
+  if (!value || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return '[Truncated]'
+  if (seen.has(value)) return '[Circular]'
+
+  if (value instanceof Error) {
+    const code = (value as { code?: unknown }).code
+    return { name: value.name, message: redactString(value.message), ...(code !== undefined && { code }) }
+  }
+
+  // Track only the current path so shared (non-circular) references still print
+  seen.add(value)
+  let copy: unknown
+  if (Array.isArray(value)) {
+    copy = value.map((item) => redact(item, depth + 1, seen))
+  } else {
+    const entries = Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) && item != null ? '[REDACTED]' : redact(item, depth + 1, seen)
+    ])
+    copy = Object.fromEntries(entries)
+  }
+  seen.delete(value)
+  return copy
+}
+
+const consoleHandler: LogHandler = (record) => {
+  const text = `[cybersource-3ds] ${record.source}: ${record.message}`
+  if (record.data) {
+    console[record.level](text, record.data)
+  } else {
+    console[record.level](text)
+  }
+}
+
+/**
+ * Levelled logger that redacts every record before handing it on
+ */
+export class Logger {
+  private threshold: number
+  private handler: LogHandler
+
+  constructor(private options: LoggerOptions = {}, private source: string = 'WebClient') {
+    this.threshold = LEVELS[options.level || 'warn']
+    this.handler = options.handler || consoleHandler
+  }
+
+  /**
+   * Build a logger from the `logger` client option. Without an explicit
+   * level, production is silent.
+   */
+  static create(option?: LoggerOptions | LogHandler, environment?: ThreeDSEnvironment): Logger {
+    const options: LoggerOptions = typeof option === 'function' ? { handler: option } : option || {}
+    return new Logger({
+      ...options,
+      level: options.level || (environment === 'production' ? 'silent' : 'warn')
+    })
+  }
+
+  /**
+   * Same settings, records tagged with another component name
+   */
+  forSource(source: string): Logger {
+    return new Logger(this.options, source)
+  }
+
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.log('debug', message, data)
+  }
+
+  info(message: string, data?: Record<string, unknown>): void {
+    this.log('info', message, data)
+  }
+
+  warn(message: string, data?: Record<string, unknown>): void {
+    this.log('warn', message, data)
+  }
+
+  error(message: string, data?: Record<string, unknown>): void {
+    this.log('error', message, data)
+  }
+
+  private log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    if (LEVELS[level] < this.threshold) return
+
+    try {
+      this.handler({
+        level,
+        message: redactString(message),
+        source: this.source,
+        time: new Date().toISOString(),
+        ...(data && { data: redact(data) as Record<string, unknown> })
+      })
+    } catch {
+      // A failing handler must never break the payment flow
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { defineComponent, h, watch } from 'vue'
+import type { PropType } from 'vue'
+import type { FlexMicroformOptions } from '@richy8/cybersource-3ds-web'
+import { useCardFields } from './use-card-fields'
+
+/**
+ * Mounts Flex Microform card fields via a template ref.
+ * Exposes `tokenize`, `valid`, `ready` and `cardType` through the component ref.
+ */
+export const CardFields = defineComponent({
+  name: 'CardFields',
+  props: {
+    captureContext: {
+      type: String,
+      required: true
+    },
+    /**
+     * Microform options. Read once when the component mounts.
+     */
+    options: {
+      type: Object as PropType<FlexMicroformOptions>,
+      default: () => ({})
+    }
+  },
+  emits: {
+    ready: () => true,
+    change: (_fieldType: string, _data: any) => true,
+    validity: (_valid: boolean) => true,
+    error: (_error: Error) => true
+  },
+  setup(props, { emit, expose }) {
+    const cardFields = useCardFields(() => props.captureContext, {
+      ...props.options,
+      onFieldChange: (fieldType, data) => {
+        props.options.onFieldChange?.(fieldType, data)
+        emit('change', fieldType, data)
+      }
+    })
+
+    watch(cardFields.ready, (ready) => {
+      if (ready) emit('ready')
+    })
+    watch(cardFields.valid, (valid) => emit('validity', valid))
+    watch(cardFields.error, (error) => {
+      if (error) emit('error', error)
+    })
+
+    expose({
+      tokenize: cardFields.tokenize,
+      ready: cardFields.ready,
+      valid: cardFields.valid,
+      cardType: cardFields.cardType
+    })
+
+    return () => h('div', { ref: cardFields.container })
+  }
+})
@@ -0,0 +1,6 @@
+export { createThreeDS, useThreeDSClient, THREE_DS_CLIENT } from './plugin'
+export { useCardFields } from './use-card-fields'
+export type { FieldState } from './use-card-fields'
+export { CardFields } from './card-fields'
+export { useChallenge } from './use-challenge'
+export type { ChallengeStatus } from './use-challenge'
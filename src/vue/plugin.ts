@@ -0,0 +1,40 @@
+import { inject } from 'vue'
+import type { App, InjectionKey, Plugin } from 'vue'
+import { WebClient } from '@richy8/cybersource-3ds-web'
+import type { WebClientOptions } from '@richy8/cybersource-3ds-web'
+
+export const THREE_DS_CLIENT: InjectionKey<WebClient> = Symbol('threeDSClient')
+
+/**
+ * Vue plugin that provides a configured WebClient to the app
+ *
+ * @example
+ * app.use(createThreeDS({ locale: 'pt', theme: 'auto' }))
+ */
+export function createThreeDS(options?: WebClientOptions | { client: WebClient }): Plugin {
+  return {
+    install(app: App) {
+      const client = options && 'client' in options ? options.client : new WebClient(options)
+      app.provide(THREE_DS_CLIENT, client)
+      app.config.globalProperties.$threeDS = client
+      app.onUnmount(() => client.destroy())
+    }
+  }
+}
+
+/**
+ * The WebClient provided by createThreeDS
+ */
+export function useThreeDSClient(): WebClient {
+  const client = inject(THREE_DS_CLIENT, null)
+  if (!client) {
+    throw new Error('No WebClient provided. Install the plugin with app.use(createThreeDS())')
+  }
+  return client
+}
+
+declare module 'vue' {
+  interface ComponentCustomProperties {
+    $threeDS: WebClient
+  }
+}
@@ -0,0 +1,113 @@
+import { getCurrentInstance, onUnmounted, readonly, ref, shallowRef, toValue, watch } from 'vue'
+import type { MaybeRefOrGetter } from 'vue'
+import { FlexInitError } from '@richy8/cybersource-3ds-web'
+import type { FlexMicroformInstance, FlexMicroformOptions, FlexTokenizeResult, WebClient } from '@richy8/cybersource-3ds-web'
+import { useThreeDSClient } from './plugin'
+
+export interface FieldState {
+  valid: boolean
+  empty: boolean
+}
+
+let nextId = 0
+
+/**
+ * Reactive wrapper around a FlexMicroform. Bind `container` as a template
+ * ref; the fields mount once it and the capture context are available and
+ * are torn down on unmount.
+ */
+export function useCardFields(
+  captureContext: MaybeRefOrGetter<string | null | undefined>,
+  options: FlexMicroformOptions = {},
+  client: WebClient = useThreeDSClient()
+) {
+  const container = ref<HTMLElement | null>(null)
+  const ready = ref(false)
+  const valid = ref(false)
+  const cardType = ref<string | null>(null)
+  const fields = ref<Record<string, FieldState>>({})
+  const error = shallowRef<Error | null>(null)
+
+  const key = `vue-card-fields:${++nextId}`
+  const required = ['cardNumber', 'securityCode']
+  if (options.expiryField && options.expiryField !== 'none') {
+    required.push('expiryDate')
+  }
+
+  let instance: FlexMicroformInstance | null = null
+  // Bumped on every teardown so late results from an old setup are ignored
+  let generation = 0
+
+  const teardown = () => {
+    generation++
+    instance = null
+    client.destroyFlexMicroform(key)
+    ready.value = false
+    valid.value = false
+    cardType.value = null
+    fields.value = {}
+  }
+
+  const setup = (element: HTMLElement, context: string) => {
+    teardown()
+    const current = generation
+    error.value = null
+
+    client
+      .setupFlexMicroform(element, context, {
+        ...options,
+        onFieldChange: (fieldType, data) => {
+          options.onFieldChange?.(fieldType, data)
+          if (current !== generation) return
+
+          fields.value = { ...fields.value, [fieldType]: { valid: !!data?.valid, empty: !!data?.empty } }
+          valid.value = required.every((field) => fields.value[field]?.valid)
+          if (fieldType === 'cardNumber') {
+            cardType.value = Array.isArray(data?.card) && data.card.length > 0 ? data.card[0].name : null
+          }
+        }
+      }, key)
+      .then((created) => {
+        if (current !== generation) return
+        instance = created
+        ready.value = true
+      })
+      .catch((err: Error) => {
+        if (current !== generation) return
+        error.value = err
+      })
+  }
+
+  watch(
+    [container, () => toValue(captureContext)],
+    ([element, context]) => {
+      if (element && context) {
+        setup(element, context)
+      } else {
+        teardown()
+      }
+    },
+    { flush: 'post' }
+  )
+
+  if (getCurrentInstance()) {
+    onUnmounted(teardown)
+  }
+
+  const tokenize = (expiryMonth?: string, expiryYear?: string): Promise<FlexTokenizeResult> => {
+    if (!instance) {
+      return Promise.reject(new FlexInitError('Card fields are not ready', { code: 'FLEX_NOT_INITIALIZED' }))
+    }
+    return instance.tokenize(expiryMonth, expiryYear)
+  }
+
+  return {
+    container,
+    ready: readonly(ready),
+    valid: readonly(valid),
+    cardType: readonly(cardType),
+    fields: readonly(fields),
+    error: readonly(error),
+    tokenize
+  }
+}
@@ -0,0 +1,74 @@
+import { computed, getCurrentInstance, onUnmounted, readonly, ref, shallowRef } from 'vue'
+import type { AuthenticationResult, ChallengeModalOptions, WebClient } from '@richy8/cybersource-3ds-web'
+import { useThreeDSClient } from './plugin'
+
+export type ChallengeStatus = 'closed' | 'open' | 'completed' | 'failed'
+
+/**
+ * Reactive wrapper around the challenge modal. An open challenge is closed
+ * when the component unmounts.
+ */
+export function useChallenge(client: WebClient = useThreeDSClient()) {
+  const status = ref<ChallengeStatus>('closed')
+  const result = shallowRef<AuthenticationResult | null>(null)
+  const error = shallowRef<Error | null>(null)
+  const isOpen = computed(() => status.value === 'open')
+
+  // Only the latest challenge may update state
+  let current = 0
+
+  const run = async (start: () => Promise<AuthenticationResult>): Promise<AuthenticationResult> => {
+    const id = ++current
+    status.value = 'open'
+    result.value = null
+    error.value = null
+
+    try {
+      const outcome = await start()
+      if (id === current) {
+        result.value = outcome
+        status.value = 'completed'
+      }
+      return outcome
+    } catch (err: any) {
+      if (id === current) {
+        error.value = err
+        status.value = 'failed'
+      }
+      throw err
+    }
+  }
+
+  const show = (stepUpUrl: string, accessToken: string, options?: ChallengeModalOptions) =>
+    run(() => client.showChallengeModal(stepUpUrl, accessToken, options))
+
+  const showInline = (
+    container: HTMLElement | string,
+    stepUpUrl: string,
+    accessToken: string,
+    options?: ChallengeModalOptions
+  ) => run(() => client.showChallengeInline(container, stepUpUrl, accessToken, options))
+
+  const close = () => {
+    client.closeChallengeModal()
+  }
+
+  if (getCurrentInstance()) {
+    onUnmounted(() => {
+      if (status.value === 'open') {
+        current++
+        client.closeChallengeModal()
+      }
+    })
+  }
+
+  return {
+    status: readonly(status),
+    isOpen,
+    result: readonly(result),
+    error: readonly(error),
+    show,
+    showInline,
+    close
+  }
+}